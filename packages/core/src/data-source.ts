@@ -4,6 +4,10 @@ import * as dotenv from "dotenv";
 import { User } from "./entities/User";
 import { Bet } from "./entities/Bet";
 import { Match } from "./entities/Match";
+import { LedgerEntry } from "./entities/LedgerEntry";
+import { Fighter } from "./entities/Fighter";
+import { AvailableBalanceSubscriber } from "./subscribers/AvailableBalanceSubscriber";
+import { MoneyToCents1792421351000 } from "./migrations/1792421351000-MoneyToCents";
 
 // Load environment variables
 dotenv.config();
@@ -15,9 +19,25 @@ export const AppDataSource = new DataSource({
   username: process.env.DB_USERNAME || "test",
   password: process.env.DB_PASSWORD || "test",
   database: process.env.DB_DATABASE || "test",
-  synchronize: process.env.TYPEORM_SYNCHRONIZE === "true",
+  // Synchronized in initializeDataSource, after migrations have converted existing data
+  synchronize: false,
+  migrationsRun: true,
   logging: process.env.TYPEORM_LOGGING === "true",
-  entities: [User, Bet, Match],
-  migrations: [],
-  subscribers: [],
+  entities: [User, Bet, Match, LedgerEntry, Fighter],
+  migrations: [MoneyToCents1792421351000],
+  subscribers: [AvailableBalanceSubscriber],
 });
+
+/**
+ * Connects to the database and runs pending migrations, then synchronizes the
+ * schema if TYPEORM_SYNCHRONIZE is "true". Synchronizing first would change
+ * column types before the migrations could convert the data in them.
+ * @returns {Promise<DataSource>} The initialized data source
+ */
+export async function initializeDataSource(): Promise<DataSource> {
+  await AppDataSource.initialize();
+  if (process.env.TYPEORM_SYNCHRONIZE === "true") {
+    await AppDataSource.synchronize();
+  }
+  return AppDataSource;
+}
@@ -0,0 +1,15 @@
+import { ObjectType, Field, Int } from "type-graphql";
+import { User } from "../entities/User";
+import { FighterColor } from "../types/FighterColor";
+
+@ObjectType()
+export class ActiveBetDto {
+  @Field(() => User)
+  user: User;
+
+  @Field(() => Int, { description: "Current wager in cents" })
+  amount: number;
+
+  @Field(() => FighterColor)
+  fighterColor: FighterColor;
+}
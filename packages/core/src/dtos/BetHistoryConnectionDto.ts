@@ -0,0 +1,58 @@
+import { ObjectType, Field, ID, Int, Float } from "type-graphql";
+import { Match } from "../entities/Match";
+import { FighterColor } from "../types/FighterColor";
+import { BetResult } from "../types/BetResult";
+import { PageInfoDto } from "./PageInfoDto";
+
+@ObjectType()
+export class BetHistoryEntryDto {
+  @Field(() => ID, { description: "The bet ID" })
+  id: string;
+
+  @Field(() => Match)
+  match: Match;
+
+  @Field(() => FighterColor)
+  side: FighterColor;
+
+  @Field(() => Int, { description: "Stake in cents" })
+  amount: number;
+
+  @Field(() => BetResult, { nullable: true, description: "Null until the match is resolved or voided" })
+  result: BetResult | null;
+
+  @Field(() => Int, {
+    description: "Cents paid back for this bet (winnings, refunds, minus any reversals); 0 for a loss",
+  })
+  payoutReceived: number;
+
+  @Field(() => Float, {
+    nullable: true,
+    description: "Decimal pari-mutuel odds on this side when the match resolved (total pool / side pool)",
+  })
+  oddsAtResolution: number | null;
+
+  @Field()
+  placedAt: Date;
+}
+
+@ObjectType()
+export class BetHistoryEdgeDto {
+  @Field()
+  cursor: string;
+
+  @Field(() => BetHistoryEntryDto)
+  node: BetHistoryEntryDto;
+}
+
+@ObjectType()
+export class BetHistoryConnectionDto {
+  @Field(() => [BetHistoryEdgeDto])
+  edges: BetHistoryEdgeDto[];
+
+  @Field(() => PageInfoDto)
+  pageInfo: PageInfoDto;
+
+  @Field(() => Int, { description: "Number of bets matching the filter, across all pages" })
+  totalCount: number;
+}
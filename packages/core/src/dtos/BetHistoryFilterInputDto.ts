@@ -0,0 +1,18 @@
+import { InputType, Field } from "type-graphql";
+import { FighterColor } from "../types/FighterColor";
+import { MatchStatus } from "../types/MatchStatus";
+
+@InputType()
+export class BetHistoryFilterInputDto {
+  @Field(() => FighterColor, { nullable: true, description: "Only bets on this side" })
+  fighterColor?: FighterColor;
+
+  @Field(() => MatchStatus, { nullable: true, description: "Only bets on matches in this status" })
+  matchStatus?: MatchStatus;
+
+  @Field({ nullable: true, description: "Only bets placed at or after this time" })
+  createdAfter?: Date;
+
+  @Field({ nullable: true, description: "Only bets placed before this time" })
+  createdBefore?: Date;
+}
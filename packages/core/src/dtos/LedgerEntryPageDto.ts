@@ -0,0 +1,14 @@
+import { ObjectType, Field, Int } from "type-graphql";
+import { LedgerEntry } from "../entities/LedgerEntry";
+
+@ObjectType()
+export class LedgerEntryPageDto {
+  @Field(() => [LedgerEntry])
+  entries: LedgerEntry[];
+
+  @Field(() => Int)
+  total: number;
+
+  @Field()
+  hasMore: boolean;
+}
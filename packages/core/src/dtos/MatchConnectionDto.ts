@@ -0,0 +1,24 @@
+import { ObjectType, Field, Int } from "type-graphql";
+import { Match } from "../entities/Match";
+import { PageInfoDto } from "./PageInfoDto";
+
+@ObjectType()
+export class MatchEdgeDto {
+  @Field()
+  cursor: string;
+
+  @Field(() => Match)
+  node: Match;
+}
+
+@ObjectType()
+export class MatchConnectionDto {
+  @Field(() => [MatchEdgeDto])
+  edges: MatchEdgeDto[];
+
+  @Field(() => PageInfoDto)
+  pageInfo: PageInfoDto;
+
+  @Field(() => Int, { description: "Number of matches matching the filter, across all pages" })
+  totalCount: number;
+}
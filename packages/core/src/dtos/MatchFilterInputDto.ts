@@ -0,0 +1,31 @@
+import { InputType, Field, Int } from "type-graphql";
+import { MatchStatus } from "../types/MatchStatus";
+import { FighterColor } from "../types/FighterColor";
+import { MatchFormat } from "../types/MatchFormat";
+
+@InputType()
+export class MatchFilterInputDto {
+  @Field(() => MatchStatus, { nullable: true })
+  status?: MatchStatus;
+
+  @Field(() => FighterColor, { nullable: true })
+  winner?: FighterColor;
+
+  @Field(() => Int, { nullable: true, description: "Salty Boy fighter ID, in either corner" })
+  fighterId?: number;
+
+  @Field({ nullable: true })
+  tier?: string;
+
+  @Field(() => MatchFormat, { nullable: true })
+  matchFormat?: MatchFormat;
+
+  @Field({ nullable: true, description: "Only matches created at or after this time" })
+  createdAfter?: Date;
+
+  @Field({ nullable: true, description: "Only matches created before this time" })
+  createdBefore?: Date;
+
+  @Field({ nullable: true, description: "Only matches the current user bet on. Requires login" })
+  onlyMine?: boolean;
+}
@@ -0,0 +1,57 @@
+import { ObjectType, Field, Int, Float } from "type-graphql";
+import { FighterColor } from "../types/FighterColor";
+
+@ObjectType()
+export class MyWagerDto {
+  @Field(() => FighterColor)
+  fighterColor: FighterColor;
+
+  @Field(() => Int, { description: "Current wager in cents" })
+  amount: number;
+
+  @Field(() => Int, {
+    description: "Projected payout in cents (stake included) if blue wins at the current pools",
+  })
+  payoutIfBlueWins: number;
+
+  @Field(() => Int, {
+    description: "Projected payout in cents (stake included) if red wins at the current pools",
+  })
+  payoutIfRedWins: number;
+}
+
+@ObjectType()
+export class MatchOddsDto {
+  @Field(() => String, { nullable: true, description: "The match the odds are for" })
+  matchId: string | null;
+
+  @Field(() => Int, { description: "Total bet on blue in cents" })
+  blue: number;
+
+  @Field(() => Int, { description: "Total bet on red in cents" })
+  red: number;
+
+  @Field(() => Float, {
+    nullable: true,
+    description: "Implied pari-mutuel odds for blue (total pool / blue pool); null while blue has no bets",
+  })
+  blueOdds: number | null;
+
+  @Field(() => Float, {
+    nullable: true,
+    description: "Implied pari-mutuel odds for red (total pool / red pool); null while red has no bets",
+  })
+  redOdds: number | null;
+
+  @Field(() => Int, { description: "Number of users betting on blue" })
+  blueBettors: number;
+
+  @Field(() => Int, { description: "Number of users betting on red" })
+  redBettors: number;
+
+  @Field(() => MyWagerDto, {
+    nullable: true,
+    description: "The authenticated user's wager and projected payouts, if they have one",
+  })
+  myWager: MyWagerDto | null;
+}
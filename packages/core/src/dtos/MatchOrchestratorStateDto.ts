@@ -0,0 +1,31 @@
+import { ObjectType, Field, Int } from "type-graphql";
+
+@ObjectType()
+export class MatchOrchestratorStateDto {
+  @Field({ description: "Whether the orchestrator is enabled on this server (MATCH_ORCHESTRATOR_ENABLED)" })
+  enabled: boolean;
+
+  @Field({ description: "Whether the orchestrator is paused. Pausing applies to every server" })
+  paused: boolean;
+
+  @Field(() => String, { nullable: true, description: "Why the orchestrator was paused" })
+  pauseReason: string | null;
+
+  @Field(() => Int)
+  pollIntervalMs: number;
+
+  @Field(() => Date, { nullable: true })
+  lastPollAt: Date | null;
+
+  @Field(() => String, { nullable: true, description: "The last match the orchestrator created" })
+  lastCreatedMatchId: string | null;
+
+  @Field(() => String, { nullable: true })
+  lastError: string | null;
+
+  @Field(() => Date, { nullable: true })
+  lastErrorAt: Date | null;
+
+  @Field(() => Int, { description: "Failed polls in a row. The orchestrator pauses itself after too many" })
+  consecutiveFailures: number;
+}
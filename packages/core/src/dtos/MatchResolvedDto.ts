@@ -0,0 +1,16 @@
+import { ObjectType, Field } from "type-graphql";
+import { Match } from "../entities/Match";
+import { FighterColor } from "../types/FighterColor";
+import { MatchSettlementDto } from "./MatchSettlementDto";
+
+@ObjectType()
+export class MatchResolvedDto {
+  @Field(() => Match)
+  match: Match;
+
+  @Field(() => FighterColor)
+  winner: FighterColor;
+
+  @Field(() => MatchSettlementDto, { description: "The pools and every bettor's receipt" })
+  settlement: MatchSettlementDto;
+}
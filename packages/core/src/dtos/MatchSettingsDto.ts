@@ -0,0 +1,10 @@
+import { ObjectType, Field } from "type-graphql";
+import { MatchFormat } from "../types/MatchFormat";
+
+@ObjectType()
+export class MatchSettingsDto {
+  @Field(() => [MatchFormat], {
+    description: "Match formats that open for betting. Matches in other formats are created locked",
+  })
+  bettableFormats: MatchFormat[];
+}
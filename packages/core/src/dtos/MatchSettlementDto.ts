@@ -0,0 +1,58 @@
+import { ObjectType, Field, ID, Int } from "type-graphql";
+import { FighterColor } from "../types/FighterColor";
+import { MatchStatus } from "../types/MatchStatus";
+import { BetResult } from "../types/BetResult";
+
+@ObjectType()
+export class BetReceiptDto {
+  @Field(() => ID)
+  betId: string;
+
+  @Field(() => ID)
+  userId: string;
+
+  @Field()
+  alias: string;
+
+  @Field(() => FighterColor)
+  side: FighterColor;
+
+  @Field(() => Int, { description: "Stake in cents" })
+  amount: number;
+
+  @Field(() => BetResult, { nullable: true })
+  result: BetResult | null;
+
+  @Field(() => Int, { nullable: true, description: "In cents" })
+  payout: number | null;
+
+  @Field(() => Int, { nullable: true, description: "In cents" })
+  profit: number | null;
+}
+
+@ObjectType()
+export class MatchSettlementDto {
+  @Field(() => ID)
+  matchId: string;
+
+  @Field(() => MatchStatus)
+  status: MatchStatus;
+
+  @Field(() => FighterColor, { nullable: true })
+  winner: FighterColor | null;
+
+  @Field(() => Int, { description: "Total staked on red in cents" })
+  redPool: number;
+
+  @Field(() => Int, { description: "Total staked on blue in cents" })
+  bluePool: number;
+
+  @Field(() => Int, { description: "Total paid back to bettors in cents" })
+  totalPaidOut: number;
+
+  @Field(() => Date, { nullable: true, description: "When the bets were last settled" })
+  settledAt: Date | null;
+
+  @Field(() => [BetReceiptDto], { description: "One receipt per bet, largest payout first" })
+  receipts: BetReceiptDto[];
+}
@@ -1,10 +1,10 @@
-import { ObjectType, Field, Float } from "type-graphql";
+import { ObjectType, Field, Int } from "type-graphql";
 
 @ObjectType()
 export class MatchTotalsDto {
-  @Field(() => Float)
+  @Field(() => Int, { description: "Total bet on blue in cents" })
   blue: number;
 
-  @Field(() => Float)
+  @Field(() => Int, { description: "Total bet on red in cents" })
   red: number;
 }
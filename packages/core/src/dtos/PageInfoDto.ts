@@ -0,0 +1,10 @@
+import { ObjectType, Field } from "type-graphql";
+
+@ObjectType()
+export class PageInfoDto {
+  @Field({ description: "Whether more items follow this page" })
+  hasNextPage: boolean;
+
+  @Field(() => String, { nullable: true, description: "Pass as `after` to fetch the next page" })
+  endCursor: string | null;
+}
@@ -1,4 +1,4 @@
-import { ObjectType, Field, Float } from "type-graphql";
+import { ObjectType, Field, Float, Int } from "type-graphql";
 
 @ObjectType()
 export class PeriodStatsDto {
@@ -8,15 +8,15 @@ export class PeriodStatsDto {
   @Field(() => Float)
   losses: number;
 
-  @Field(() => Float)
+  @Field(() => Int, { description: "In cents" })
   revenueGained: number;
 
-  @Field(() => Float)
+  @Field(() => Int, { description: "In cents" })
   revenueLost: number;
 
   @Field(() => Float)
   winPercentage: number;
 
-  @Field(() => Float)
+  @Field(() => Int, { description: "In cents" })
   grossRevenue: number;
 }
@@ -0,0 +1,26 @@
+import { ObjectType, Field, Int } from "type-graphql";
+import { CircuitState } from "../types/CircuitState";
+
+@ObjectType()
+export class UpstreamHealthDto {
+  @Field({ description: "The match data provider in use (http or replay)" })
+  provider: string;
+
+  @Field(() => CircuitState)
+  state: CircuitState;
+
+  @Field(() => Int, { description: "Upstream failures in a row" })
+  consecutiveFailures: number;
+
+  @Field(() => Date, { nullable: true })
+  lastSuccessAt: Date | null;
+
+  @Field(() => Date, { nullable: true })
+  lastFailureAt: Date | null;
+
+  @Field(() => String, { nullable: true })
+  lastError: string | null;
+
+  @Field(() => Date, { nullable: true, description: "When an open circuit lets the next trial call through" })
+  retryAt: Date | null;
+}
@@ -1,4 +1,4 @@
-import { InputType, Field } from "type-graphql";
+import { InputType, Field, Int } from "type-graphql";
 import { SecurityLevel } from "../types/SecurityLevel";
 import { MinLength } from "class-validator";
 
@@ -17,7 +17,7 @@ export class CreateUserInputDto {
   @Field(() => SecurityLevel, { defaultValue: SecurityLevel.USER })
   securityLevel: SecurityLevel;
 
-  @Field({ defaultValue: 0 })
+  @Field(() => Int, { defaultValue: 0, description: "Starting balance in cents" })
   balance: number;
 }
 
@@ -33,7 +33,7 @@ export class UpdateUserInputDto {
   @MinLength(8, { message: "Password must be at least 8 characters long" })
   password?: string;
 
-  @Field({ nullable: true })
+  @Field(() => Int, { nullable: true, description: "New balance in cents" })
   balance?: number;
 
   @Field(() => SecurityLevel, { nullable: true })
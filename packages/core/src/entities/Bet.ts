@@ -6,10 +6,11 @@ import {
   ManyToOne,
   JoinColumn,
 } from "typeorm";
-import { ObjectType, Field, ID } from "type-graphql";
+import { ObjectType, Field, ID, Int } from "type-graphql";
 import { User } from "./User";
 import { Match } from "./Match";
 import { FighterColor } from "../types/FighterColor";
+import { BetResult } from "../types/BetResult";
 
 @ObjectType()
 @Entity()
@@ -20,8 +21,8 @@ export class Bet {
   id: string;
 
   // Bet Details
-  @Field()
-  @Column("decimal", { precision: 10, scale: 2 })
+  @Field(() => Int, { description: "Stake in cents" })
+  @Column("integer")
   amount: number;
 
   @Field(() => FighterColor)
@@ -31,6 +32,26 @@ export class Bet {
   })
   fighterColor: FighterColor;
 
+  // Settlement (null until the match is resolved or voided)
+  @Field(() => BetResult, { nullable: true })
+  @Column({ type: "enum", enum: BetResult, nullable: true })
+  result?: BetResult | null;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Cents paid back: stake plus winnings, the stake on a refund, 0 on a loss",
+  })
+  @Column({ type: "integer", nullable: true })
+  payout?: number | null;
+
+  @Field(() => Int, { nullable: true, description: "Payout minus stake in cents" })
+  @Column({ type: "integer", nullable: true })
+  profit?: number | null;
+
+  @Field(() => Date, { nullable: true })
+  @Column({ type: "timestamp", nullable: true })
+  settledAt?: Date | null;
+
   // Relationships
   @Field(() => User)
   @ManyToOne(() => User, (user) => user.bets)
@@ -1,31 +1,49 @@
+import { Entity, Column, PrimaryColumn } from "typeorm";
 import { ObjectType, Field, ID, Int } from "type-graphql";
 
 @ObjectType()
+@Entity()
 export class Fighter {
+  // Primary Key (the Salty Boy fighter id)
   @Field(() => ID)
+  @PrimaryColumn("integer")
   id: number;
 
+  // Fighter Details
   @Field()
+  @Column()
   name: string;
 
   @Field()
+  @Column()
   tier: string;
 
   @Field()
+  @Column()
   prevTier: string;
 
   @Field(() => Int)
+  @Column("integer")
   elo: number;
 
   @Field(() => Int)
+  @Column("integer")
   tierElo: number;
 
   @Field(() => Int)
+  @Column("integer")
   bestStreak: number;
 
+  // Timestamps
   @Field()
+  @Column("timestamp")
   createdTime: Date;
 
   @Field()
+  @Column("timestamp")
   lastUpdated: Date;
+
+  // When this copy was last fetched from Salty Boy
+  @Column("timestamp")
+  syncedAt: Date;
 }
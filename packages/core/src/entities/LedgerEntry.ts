@@ -0,0 +1,77 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from "typeorm";
+import { ObjectType, Field, ID, Int } from "type-graphql";
+import { User } from "./User";
+import { Match } from "./Match";
+import { Bet } from "./Bet";
+import { LedgerEntryType } from "../types/LedgerEntryType";
+
+/**
+ * An immutable record of a single change to a user's balance.
+ * Entries are only ever inserted, never updated or deleted.
+ */
+@ObjectType()
+@Entity()
+@Index(["user", "createdAt"])
+export class LedgerEntry {
+  // Primary Key
+  @Field(() => ID)
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  // Entry Details
+  @Field(() => LedgerEntryType)
+  @Column({
+    type: "enum",
+    enum: LedgerEntryType,
+  })
+  type: LedgerEntryType;
+
+  @Field(() => Int, {
+    description: "Signed change applied to the balance in cents (negative for debits)",
+  })
+  @Column("integer")
+  amount: number;
+
+  @Field(() => Int, { description: "The user's balance after this entry in cents" })
+  @Column("integer")
+  balanceAfter: number;
+
+  @Field({ nullable: true })
+  @Column({ type: "varchar", nullable: true })
+  description?: string | null;
+
+  // Relationships
+  @ManyToOne(() => User)
+  @JoinColumn()
+  user: User;
+
+  @Field(() => Match, { nullable: true })
+  @ManyToOne(() => Match, { nullable: true })
+  @JoinColumn()
+  match?: Match | null;
+
+  @ManyToOne(() => Bet, { nullable: true })
+  @JoinColumn()
+  bet?: Bet | null;
+
+  @Field(() => User, {
+    nullable: true,
+    description: "The admin or manager who made a manual adjustment",
+  })
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn()
+  actor?: User | null;
+
+  // Timestamps
+  @Field()
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -5,10 +5,12 @@ import {
   OneToMany,
   CreateDateColumn,
 } from "typeorm";
-import { ObjectType, Field, ID, Float, Int } from "type-graphql";
+import { ObjectType, Field, ID, Int, Float } from "type-graphql";
 import { Bet } from "./Bet";
 import { FighterColor } from "../types/FighterColor";
-import { Fighter } from "./Fighter";
+import { MatchStatus } from "../types/MatchStatus";
+import { MatchFormat } from "../types/MatchFormat";
+import { PeriodStatsBatch } from "../types/PeriodStats";
 
 @ObjectType()
 @Entity()
@@ -19,10 +21,32 @@ export class Match {
   id: string;
 
   // Match Details
-  @Field({ nullable: true })
+  @Field(() => MatchStatus)
+  @Column({
+    type: "enum",
+    enum: MatchStatus,
+    default: MatchStatus.OPEN,
+  })
+  status: MatchStatus;
+
+  @Field({ nullable: true, description: "The Salty Boy match this match's result came from" })
   @Column({ nullable: true })
   externalId?: number | null;
 
+  @Field(() => Float, {
+    nullable: true,
+    description: "How confident the match was in its Salty Boy record, from 0 to 1. 1 when chosen by an admin",
+  })
+  @Column({ type: "real", nullable: true })
+  correlationConfidence?: number | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: "Why the result could not be settled automatically. Set while the match is in the unresolved queue",
+  })
+  @Column({ type: "varchar", nullable: true })
+  unresolvedReason?: string | null;
+
   @Field(() => FighterColor, { nullable: true })
   @Column({
     type: "enum",
@@ -31,12 +55,46 @@ export class Match {
   })
   winner: FighterColor | null;
 
+  @Field(() => MatchFormat, { description: "The Salty Bet format the match was fought in" })
+  @Column({
+    type: "enum",
+    enum: MatchFormat,
+    default: MatchFormat.MATCHMAKING,
+  })
+  matchFormat: MatchFormat;
+
+  @Field(() => String, { nullable: true, description: "The Salty Bet tier (S, A, B, ...)" })
+  @Column({ type: "varchar", nullable: true })
+  tier: string | null;
+
+  @Field({ description: "Whether the match accepted bets when it was created" })
+  @Column({ default: true })
+  bettable: boolean;
+
+  @Field({ nullable: true, description: "Why the match was voided" })
+  @Column({ type: "varchar", nullable: true })
+  voidReason?: string | null;
+
+  // Period stat changes from settling the match that have not reached Redis
+  // yet; retried until they do
+  @Column({ type: "jsonb", nullable: true })
+  pendingPeriodStats?: PeriodStatsBatch[] | null;
+
   // Fighter Relationships
-  @Column()
-  fighterBlueId: number;
+  // Ids are null when Salty Boy has no record of the fighters (e.g. exhibitions)
+  @Column({ type: "integer", nullable: true })
+  fighterBlueId: number | null;
+
+  @Column({ type: "integer", nullable: true })
+  fighterRedId: number | null;
 
-  @Column()
-  fighterRedId: number;
+  @Field()
+  @Column({ default: "" })
+  fighterBlueName: string;
+
+  @Field()
+  @Column({ default: "" })
+  fighterRedName: string;
 
   // Relationships
   @Field(() => [Bet], { nullable: true })
@@ -44,10 +102,10 @@ export class Match {
   bets: Bet[];
 
   // Computed Fields
-  @Field(() => Float)
+  @Field(() => Int)
   totalBlueBets: number;
 
-  @Field(() => Float)
+  @Field(() => Int)
   totalRedBets: number;
 
   // Timestamps
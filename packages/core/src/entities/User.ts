@@ -6,7 +6,7 @@ import {
   UpdateDateColumn,
   OneToMany,
 } from "typeorm";
-import { ObjectType, Field, ID } from "type-graphql";
+import { ObjectType, Field, ID, Int } from "type-graphql";
 import * as bcryptjs from "bcryptjs";
 import * as jwt from "jsonwebtoken";
 import { SecurityLevel } from "../types/SecurityLevel";
@@ -40,9 +40,9 @@ export class User {
   })
   securityLevel: SecurityLevel;
 
-  // Financial Tracking
-  @Field()
-  @Column("decimal", { precision: 10, scale: 2, default: 0 })
+  // Financial Tracking (all monetary values are integer cents)
+  @Field(() => Int, { description: "Balance in cents" })
+  @Column("integer", { default: 0 })
   balance: number;
 
   @Field()
@@ -53,12 +53,12 @@ export class User {
   @Column({ default: 0 })
   totalLosses: number;
 
-  @Field()
-  @Column("decimal", { precision: 10, scale: 2, default: 0 })
+  @Field(() => Int, { description: "Total winnings (share of losing pools) in cents" })
+  @Column("integer", { default: 0 })
   totalRevenueGained: number;
 
-  @Field()
-  @Column("decimal", { precision: 10, scale: 2, default: 0 })
+  @Field(() => Int, { description: "Total stakes lost in cents" })
+  @Column("integer", { default: 0 })
   totalRevenueLost: number;
 
   // Relationships
@@ -1,19 +1,35 @@
 import "reflect-metadata";
 import express from "express";
 import cors from "cors";
+import { createServer as createHttpServer } from "http";
+import { WebSocketServer } from "ws";
+import { useServer } from "graphql-ws/lib/use/ws";
 import { expressMiddleware } from "@apollo/server/express4";
 import { createServer } from "./server";
-import { getContextFromRequest } from "./middleware/auth";
+import {
+  getConnectionToken,
+  getContextFromConnectionParams,
+  getContextFromRequest,
+} from "./middleware/auth";
+import { AuthorizationService } from "./services/AuthorizationService";
 import { logger } from "./utils/logger";
+import { BetService } from "./services/BetService";
+import { MatchOrchestratorService } from "./services/MatchOrchestratorService";
+import { MatchService } from "./services/MatchService";
+import { PeriodStatsService } from "./services/PeriodStatsService";
 
 /**
  * Starts the Express server, sets up middleware, and attaches Apollo Server.
  * @returns {Promise<void>} Resolves when the server is started.
  */
 async function start() {
-  const { server, pubSub } = await createServer();
+  const { server, schema, pubSub } = await createServer();
+
+  // Period revenue stats written in dollars before the move to cents
+  await PeriodStatsService.getInstance().convertLegacyRevenue();
 
   const app = express();
+  const httpServer = createHttpServer(app);
 
   // ===========================================
   // Apollo GraphQL Middleware
@@ -32,13 +48,56 @@ async function start() {
     })
   );
 
+  // ===========================================
+  // GraphQL WebSocket Server (subscriptions)
+  // ===========================================
+
+  const wsServer = new WebSocketServer({ server: httpServer, path: "/graphql" });
+  useServer(
+    {
+      schema,
+      // Anonymous connections are allowed (public subscriptions), but a
+      // token that fails verification is rejected outright
+      onConnect: async ({ connectionParams }) => {
+        const token = getConnectionToken(connectionParams);
+        if (token && !(await AuthorizationService.verifyToken(token))) {
+          logger.warn("Rejected WebSocket connection with an invalid token");
+          return false;
+        }
+        return true;
+      },
+      // Built per operation so a token revoked by logout stops working on
+      // the next subscribe
+      context: async ({ connectionParams }) =>
+        getContextFromConnectionParams(connectionParams, pubSub),
+    },
+    wsServer
+  );
+
   // ===========================================
   // Start Server
   // ===========================================
 
-  app.listen(4000, () => {
+  httpServer.listen(4000, () => {
     logger.success(`🚀 Server ready at ${logger.cyan("http://localhost:4000/graphql")}`);
+    logger.success(`🔌 Subscriptions ready at ${logger.cyan("ws://localhost:4000/graphql")}`);
   });
+
+  // ===========================================
+  // Background Workers
+  // ===========================================
+
+  // Picks up finalization deadlines persisted in Redis, including any that
+  // passed while the server was down
+  BetService.getInstance().startFinalizationWorker();
+
+  // Applies period stat changes that could not reach Redis when their match
+  // was settled
+  MatchService.getInstance().startPeriodStatsWorker();
+
+  // Creates and ends matches from Salty Boy polling when
+  // MATCH_ORCHESTRATOR_ENABLED=true
+  MatchOrchestratorService.getInstance().start();
 }
 
 start().catch((error) => {
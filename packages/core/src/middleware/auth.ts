@@ -5,6 +5,7 @@ import { AuthorizationService } from "../services/AuthorizationService";
 import { Request } from "express";
 import { PubSub } from "@graphql-yoga/subscription";
 import { logger } from "../utils/logger";
+import { FighterService } from "../services/FighterService";
 
 /**
  * Builds the GraphQL context from the Express request and PubSub instance.
@@ -16,16 +17,67 @@ export async function getContextFromRequest(
   req: Request,
   pubSub: PubSub<Subscriptions>
 ): Promise<Context> {
-  const context: Context = { user: null, req, pubSub };
+  return buildContext(req, pubSub, getBearerToken(req.headers.authorization));
+}
 
-  // Get the authorization header
-  const authHeader = req.headers.authorization;
-  if (!authHeader) {
-    return context;
+/**
+ * Builds the GraphQL context for an operation on a WebSocket connection.
+ * Clients authenticate by sending `{ authorization: "Bearer <token>" }` as
+ * their connectionParams.
+ * @param {Record<string, unknown> | undefined} connectionParams - The connection_init payload.
+ * @param {PubSub<Subscriptions>} pubSub - The PubSub instance for subscriptions.
+ * @returns {Promise<Context>} The constructed context object.
+ */
+export async function getContextFromConnectionParams(
+  connectionParams: Record<string, unknown> | undefined,
+  pubSub: PubSub<Subscriptions>
+): Promise<Context> {
+  return buildContext(null, pubSub, getConnectionToken(connectionParams));
+}
+
+/**
+ * Extracts the token from a WebSocket connection's connectionParams.
+ * @param {Record<string, unknown> | undefined} connectionParams - The connection_init payload.
+ * @returns {string | null} The token, or null if none was sent.
+ */
+export function getConnectionToken(
+  connectionParams: Record<string, unknown> | undefined
+): string | null {
+  const authorization = connectionParams?.authorization;
+  return typeof authorization === "string" ? getBearerToken(authorization) : null;
+}
+
+/**
+ * Extracts the token from an authorization value (assuming Bearer token).
+ * @param {string | undefined} authorization - The authorization header or connection param.
+ * @returns {string | null} The token, or null if there is none.
+ */
+function getBearerToken(authorization: string | undefined): string | null {
+  if (!authorization) {
+    return null;
   }
+  return authorization.split(" ")[1] || null;
+}
+
+/**
+ * Builds a context, resolving the user from the token if it is valid.
+ * @param {Request | null} req - The Express request, or null over WebSocket.
+ * @param {PubSub<Subscriptions>} pubSub - The PubSub instance for subscriptions.
+ * @param {string | null} token - The JWT sent by the client, if any.
+ * @returns {Promise<Context>} The constructed context object.
+ */
+async function buildContext(
+  req: Request | null,
+  pubSub: PubSub<Subscriptions>,
+  token: string | null
+): Promise<Context> {
+  const context: Context = {
+    user: null,
+    req,
+    pubSub,
+    fighterLoader: FighterService.getInstance().createLoader(),
+  };
 
-  // Extract the token (assuming Bearer token)
-  const token = authHeader.split(" ")[1];
   if (!token) {
     return context;
   }
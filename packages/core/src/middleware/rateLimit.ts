@@ -0,0 +1,37 @@
+import { createMethodMiddlewareDecorator } from "type-graphql";
+import { Context } from "../types/Context";
+import { RateLimitOptions } from "../types/RateLimit";
+import { RateLimitBucket, RateLimitService } from "../services/RateLimitService";
+import { RateLimitError } from "../utils/RateLimitError";
+
+/**
+ * Rate limits a query or mutation with Redis token buckets: one per caller
+ * (chosen by security level) and optionally one shared by everyone. Put it
+ * below `@Authorized()` so unauthenticated requests are rejected first.
+ * @param {RateLimitOptions} options - The limits for the operation.
+ * @returns {MethodDecorator} The decorator.
+ * @throws {RateLimitError} When the caller or everyone together is over the limit.
+ */
+export function RateLimit(options: RateLimitOptions): MethodDecorator {
+  return createMethodMiddlewareDecorator<Context>(async ({ context, info }, next) => {
+    const operation = options.operation ?? info.fieldName;
+    const buckets: RateLimitBucket[] = [];
+
+    const { user, req } = context;
+    const override = user ? options.bySecurityLevel?.[user.securityLevel] : undefined;
+    const rule = override === undefined ? options.perUser : override;
+    if (rule) {
+      const caller = user ? `user:${user.id}` : `ip:${req?.ip ?? "unknown"}`;
+      buckets.push({ name: `${operation}:${caller}`, rule });
+    }
+    if (options.global) {
+      buckets.push({ name: `${operation}:global`, rule: options.global });
+    }
+
+    const retryAfterMs = await RateLimitService.getInstance().take(buckets);
+    if (retryAfterMs > 0) {
+      throw new RateLimitError(operation, Math.ceil(retryAfterMs / 1000));
+    }
+    return next();
+  });
+}
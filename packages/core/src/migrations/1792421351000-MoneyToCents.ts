@@ -0,0 +1,73 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Money columns that used to hold decimal dollars and now hold integer cents.
+ */
+const MONEY_COLUMNS: { table: string; column: string }[] = [
+  { table: "user", column: "balance" },
+  { table: "user", column: "totalRevenueGained" },
+  { table: "user", column: "totalRevenueLost" },
+  { table: "bet", column: "amount" },
+  { table: "ledger_entry", column: "amount" },
+  { table: "ledger_entry", column: "balanceAfter" },
+];
+
+/**
+ * MoneyToCents - Converts the decimal(10,2) dollar columns to integer cents,
+ * multiplying stored values by 100 as the type changes.
+ *
+ * Columns that are missing (fresh database) or already integer (created by
+ * synchronize after the switch to cents) are skipped, so it is safe on any
+ * database.
+ */
+export class MoneyToCents1792421351000 implements MigrationInterface {
+  name = "MoneyToCents1792421351000";
+
+  /**
+   * Converts each decimal dollar column to integer cents.
+   * @param {QueryRunner} queryRunner - The migration's query runner
+   * @returns {Promise<void>}
+   */
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    for (const { table, column } of MONEY_COLUMNS) {
+      if ((await this.getColumnType(queryRunner, table, column)) !== "numeric") continue;
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE integer USING round("${column}" * 100)::integer`
+      );
+    }
+  }
+
+  /**
+   * Converts each integer cents column back to decimal dollars.
+   * @param {QueryRunner} queryRunner - The migration's query runner
+   * @returns {Promise<void>}
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    for (const { table, column } of MONEY_COLUMNS) {
+      if ((await this.getColumnType(queryRunner, table, column)) !== "integer") continue;
+      await queryRunner.query(
+        `ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE numeric(10,2) USING "${column}" / 100.0`
+      );
+    }
+  }
+
+  /**
+   * Looks up a column's current Postgres type.
+   * @param {QueryRunner} queryRunner - The migration's query runner
+   * @param {string} table - The table name
+   * @param {string} column - The column name
+   * @returns {Promise<string | null>} The data type, or null if the column does not exist
+   */
+  private async getColumnType(
+    queryRunner: QueryRunner,
+    table: string,
+    column: string
+  ): Promise<string | null> {
+    const rows: { data_type: string }[] = await queryRunner.query(
+      `SELECT data_type FROM information_schema.columns
+       WHERE table_schema = current_schema() AND table_name = $1 AND column_name = $2`,
+      [table, column]
+    );
+    return rows[0]?.data_type ?? null;
+  }
+}
@@ -7,15 +7,36 @@ import {
   Subscription,
   Root,
   Ctx,
+  Int,
 } from "type-graphql";
 import { BetService } from "../services/BetService";
 import { FighterColor } from "../types/FighterColor";
 import { SecurityLevel } from "../types/SecurityLevel";
 import { Context, SubscriptionKeys } from "../types/Context";
 import { MatchTotalsDto } from "../dtos/MatchTotalsDto";
+import { MatchOddsDto } from "../dtos/MatchOddsDto";
+import { ActiveBetDto } from "../dtos/ActiveBetDto";
 import { Bet } from "../entities/Bet";
+import { BetHistoryService } from "../services/BetHistoryService";
+import { BetHistoryConnectionDto } from "../dtos/BetHistoryConnectionDto";
+import { BetHistoryFilterInputDto } from "../dtos/BetHistoryFilterInputDto";
+import { RateLimit } from "../middleware/rateLimit";
+import { RateLimitOptions } from "../types/RateLimit";
 import { logger } from "../utils/logger";
 
+/**
+ * Limits for placing and cancelling bets: a short burst per user (more for
+ * staff testing the board) and a ceiling for everyone together.
+ */
+const BETTING_RATE_LIMIT: RateLimitOptions = {
+  perUser: { capacity: 10, refillPerSecond: 2 },
+  bySecurityLevel: {
+    [SecurityLevel.PAYOUT_MANAGER]: { capacity: 30, refillPerSecond: 10 },
+    [SecurityLevel.ADMIN]: { capacity: 30, refillPerSecond: 10 },
+  },
+  global: { capacity: 500, refillPerSecond: 200 },
+};
+
 /**
  * BetResolver handles all GraphQL operations related to bets, including queries, user/admin mutations, and subscriptions.
  *
@@ -28,6 +49,7 @@ export class BetResolver {
   // Properties
   // ============================================
   private betService: BetService;
+  private betHistoryService = BetHistoryService.getInstance();
 
   /**
    * Initializes the BetResolver and its BetService instance.
@@ -52,6 +74,23 @@ export class BetResolver {
     return this.betService.getMatchTotals();
   }
 
+  /**
+   * Gets the live odds for the current match, with the current user's wager
+   * and projected payouts.
+   *
+   * @param {Context} context - The request context
+   * @returns {Promise<MatchOddsDto>} The current odds
+   */
+  @Authorized()
+  @Query(() => MatchOddsDto, {
+    description:
+      "Get the current match's pools, implied odds, bettor counts and your projected payouts",
+  })
+  async getMatchOdds(@Ctx() context: Context): Promise<MatchOddsDto> {
+    logger.debug("Fetching current match odds");
+    return this.betService.getMatchOdds(context.user!.id);
+  }
+
   /**
    * Gets the current user's bet for the current match, if any.
    *
@@ -65,6 +104,46 @@ export class BetResolver {
     return this.betService.getUserBet(context.user!.id);
   }
 
+  /**
+   * Fetches a page of the current user's finalized bets, newest first, with
+   * how each one turned out.
+   *
+   * @param {number} first - Page size (max 100)
+   * @param {string} after - Cursor of the last bet on the previous page
+   * @param {BetHistoryFilterInputDto} filter - Which bets to include
+   * @param {Context} context - The request context
+   * @returns {Promise<BetHistoryConnectionDto>} The page of bets
+   */
+  @Authorized()
+  @Query(() => BetHistoryConnectionDto, {
+    description:
+      "Get the current user's bet history, newest first, with each bet's result, payout and odds",
+  })
+  async myBets(
+    @Arg("first", () => Int, { defaultValue: 20 }) first: number,
+    @Arg("after", { nullable: true }) after: string | undefined,
+    @Arg("filter", () => BetHistoryFilterInputDto, { nullable: true })
+    filter: BetHistoryFilterInputDto | undefined,
+    @Ctx() context: Context
+  ): Promise<BetHistoryConnectionDto> {
+    return this.betHistoryService.getUserBets(context.user!.id, filter ?? {}, first, after);
+  }
+
+  /**
+   * Lists every live (not yet finalized) bet on the open match. Only admins or payout managers can see this.
+   *
+   * @returns {Promise<ActiveBetDto[]>} The bettors and their current wagers
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Query(() => [ActiveBetDto], {
+    description:
+      "List the live bettors on the open match. Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  async activeBettors(): Promise<ActiveBetDto[]> {
+    logger.debug("Fetching active bettors for the open match");
+    return this.betService.getActiveBettors();
+  }
+
   // ============================================
   // User Mutations
   // ============================================
@@ -72,16 +151,25 @@ export class BetResolver {
   /**
    * Places a bet for the current user.
    *
-   * @param {number} amount - The bet amount
+   * @param {number} amount - The bet amount in cents
    * @param {FighterColor} fighterColor - The color of the fighter to bet on
+   * @param {string} idempotencyKey - Optional client-generated key that makes retries safe
    * @param {Context} context - The request context
    * @returns {Promise<boolean>} True if the bet was placed successfully
+   * @throws {RateLimitError} If the user is placing bets too quickly
    */
   @Authorized()
+  @RateLimit(BETTING_RATE_LIMIT)
   @Mutation(() => Boolean)
   async placeBet(
-    @Arg("amount") amount: number,
+    @Arg("amount", () => Int, { description: "Amount in cents (increments of 5)" })
+    amount: number,
     @Arg("fighterColor") fighterColor: FighterColor,
+    @Arg("idempotencyKey", {
+      nullable: true,
+      description: "Client-generated key; retrying with the same key returns the original result instead of betting again",
+    })
+    idempotencyKey: string | undefined,
     @Ctx() context: Context
   ): Promise<boolean> {
     logger.info(
@@ -94,12 +182,14 @@ export class BetResolver {
     const result = await this.betService.placeBet(
       context.user!,
       amount,
-      fighterColor
+      fighterColor,
+      idempotencyKey
     );
 
     // Schedule throttled update to totals
-    await this.betService.scheduleTotalsUpdate(async (totals) => {
+    await this.betService.scheduleTotalsUpdate(async (totals, odds) => {
       await context.pubSub.publish(SubscriptionKeys.BetTotals, totals);
+      await context.pubSub.publish(SubscriptionKeys.MatchOdds, odds);
     });
 
     if (result) {
@@ -117,14 +207,23 @@ export class BetResolver {
   /**
    * Cancels a bet for the current user.
    *
-   * @param {number} amount - The amount to cancel
+   * @param {number} amount - The amount to cancel in cents
+   * @param {string} idempotencyKey - Optional client-generated key that makes retries safe
    * @param {Context} context - The request context
    * @returns {Promise<boolean>} True if the bet was cancelled successfully
+   * @throws {RateLimitError} If the user is cancelling bets too quickly
    */
   @Authorized()
+  @RateLimit(BETTING_RATE_LIMIT)
   @Mutation(() => Boolean)
   async cancelBet(
-    @Arg("amount") amount: number,
+    @Arg("amount", () => Int, { description: "Amount in cents (increments of 5)" })
+    amount: number,
+    @Arg("idempotencyKey", {
+      nullable: true,
+      description: "Client-generated key; retrying with the same key returns the original result instead of cancelling again",
+    })
+    idempotencyKey: string | undefined,
     @Ctx() context: Context
   ): Promise<boolean> {
     logger.info(
@@ -132,11 +231,16 @@ export class BetResolver {
         context.user!.id
       )} cancelling bet of amount ${logger.cyan(amount)}`
     );
-    const result = await this.betService.cancelBet(context.user!, amount);
+    const result = await this.betService.cancelBet(
+      context.user!,
+      amount,
+      idempotencyKey
+    );
 
     // Schedule throttled update to totals
-    await this.betService.scheduleTotalsUpdate(async (totals) => {
+    await this.betService.scheduleTotalsUpdate(async (totals, odds) => {
       await context.pubSub.publish(SubscriptionKeys.BetTotals, totals);
+      await context.pubSub.publish(SubscriptionKeys.MatchOdds, odds);
     });
 
     if (result) {
@@ -156,7 +260,7 @@ export class BetResolver {
   // ============================================
 
   /**
-   * Finalizes all bets for a given match. Only admins or payout managers can perform this action.
+   * Finalizes all bets for a given match (OPEN -> LOCKED). Only admins or payout managers can perform this action.
    *
    * @param {string} matchId - The match ID
    * @returns {Promise<boolean>} True if bets were finalized
@@ -166,6 +270,8 @@ export class BetResolver {
   async finalizeBets(@Arg("matchId") matchId: string): Promise<boolean> {
     logger.info(`Finalizing bets for match ${logger.cyan(matchId)}`);
     await this.betService.finalizeBets(matchId);
+    // Only once finalized, so a failure leaves the deadline to the worker
+    await this.betService.cancelFinalization(matchId);
     logger.success(`Bets finalized for match ${logger.cyan(matchId)}`);
     return true;
   }
@@ -189,4 +295,26 @@ export class BetResolver {
     logger.debug("Bet totals updated via subscription");
     return totals;
   }
+
+  /**
+   * Subscription for when the odds change. Published alongside bet totals;
+   * each subscriber's own wager and projected payouts are added on delivery.
+   *
+   * @param {MatchOddsDto} odds - The updated odds, without a wager
+   * @param {Context} context - The subscriber's context
+   * @returns {Promise<MatchOddsDto>} The odds with the subscriber's wager, if any
+   */
+  @Subscription(() => MatchOddsDto, {
+    topics: SubscriptionKeys.MatchOdds,
+  })
+  async oddsUpdated(
+    @Root() odds: MatchOddsDto,
+    @Ctx() context: Context
+  ): Promise<MatchOddsDto> {
+    logger.debug("Match odds updated via subscription");
+    if (!context.user) {
+      return odds;
+    }
+    return this.betService.withWager(odds, context.user.id);
+  }
 }
@@ -0,0 +1,69 @@
+import { Resolver, Query, Arg, Authorized, Ctx, Int } from "type-graphql";
+import { LedgerService } from "../services/LedgerService";
+import { LedgerEntry } from "../entities/LedgerEntry";
+import { LedgerEntryPageDto } from "../dtos/LedgerEntryPageDto";
+import { SecurityLevel } from "../types/SecurityLevel";
+import { Context } from "../types/Context";
+import { logger } from "../utils/logger";
+
+/**
+ * LedgerResolver exposes the balance ledger so users (and managers) can see
+ * exactly why a balance changed.
+ *
+ * @class LedgerResolver
+ * @implements {Resolver<LedgerEntry>}
+ */
+@Resolver(() => LedgerEntry)
+export class LedgerResolver {
+  // ============================================
+  // Properties
+  // ============================================
+  private ledgerService = LedgerService.getInstance();
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  /**
+   * Fetches the current user's ledger, newest first.
+   *
+   * @param {number} take - Page size (max 100)
+   * @param {number} skip - Number of entries to skip
+   * @param {Context} context - The request context
+   * @returns {Promise<LedgerEntryPageDto>} A page of ledger entries
+   */
+  @Authorized()
+  @Query(() => LedgerEntryPageDto, {
+    description: "Get the current user's balance history, newest first",
+  })
+  async myLedger(
+    @Arg("take", () => Int, { defaultValue: 20 }) take: number,
+    @Arg("skip", () => Int, { defaultValue: 0 }) skip: number,
+    @Ctx() context: Context
+  ): Promise<LedgerEntryPageDto> {
+    logger.debug(`Fetching ledger for current user ${logger.cyan(context.user!.id)}`);
+    return this.ledgerService.getEntries(context.user!.id, take, skip);
+  }
+
+  /**
+   * Fetches any user's ledger, newest first. Requires ADMIN or PAYOUT_MANAGER.
+   *
+   * @param {string} id - The user ID
+   * @param {number} take - Page size (max 100)
+   * @param {number} skip - Number of entries to skip
+   * @returns {Promise<LedgerEntryPageDto>} A page of ledger entries
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Query(() => LedgerEntryPageDto, {
+    description:
+      "Get a user's balance history, newest first. Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  async userLedger(
+    @Arg("id") id: string,
+    @Arg("take", () => Int, { defaultValue: 20 }) take: number,
+    @Arg("skip", () => Int, { defaultValue: 0 }) skip: number
+  ): Promise<LedgerEntryPageDto> {
+    logger.debug(`Fetching ledger for user ${logger.cyan(id)}`);
+    return this.ledgerService.getEntries(id, take, skip);
+  }
+}
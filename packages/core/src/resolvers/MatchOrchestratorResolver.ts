@@ -0,0 +1,73 @@
+import { Resolver, Query, Mutation, Arg, Authorized } from "type-graphql";
+import { MatchOrchestratorService } from "../services/MatchOrchestratorService";
+import { MatchOrchestratorStateDto } from "../dtos/MatchOrchestratorStateDto";
+import { SecurityLevel } from "../types/SecurityLevel";
+import { logger } from "../utils/logger";
+
+/**
+ * MatchOrchestratorResolver exposes admin controls for the automatic match
+ * orchestrator: inspect its state, pause it and resume it.
+ *
+ * @class MatchOrchestratorResolver
+ */
+@Resolver()
+export class MatchOrchestratorResolver {
+  // ============================================
+  // Properties
+  // ============================================
+  private matchOrchestratorService = MatchOrchestratorService.getInstance();
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  /**
+   * Fetches the orchestrator's current state.
+   *
+   * @returns {Promise<MatchOrchestratorStateDto>} The orchestrator state
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Query(() => MatchOrchestratorStateDto, {
+    description:
+      "Get the state of the automatic match orchestrator. Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  async matchOrchestratorState(): Promise<MatchOrchestratorStateDto> {
+    logger.debug("Fetching match orchestrator state");
+    return this.matchOrchestratorService.getState();
+  }
+
+  // ============================================
+  // Mutations
+  // ============================================
+
+  /**
+   * Pauses the orchestrator so matches are only driven manually.
+   *
+   * @param {string} reason - Why it is being paused
+   * @returns {Promise<MatchOrchestratorStateDto>} The updated state
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Mutation(() => MatchOrchestratorStateDto, {
+    description:
+      "Pause the automatic match orchestrator. Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  async pauseMatchOrchestrator(
+    @Arg("reason", { defaultValue: "Paused manually" }) reason: string
+  ): Promise<MatchOrchestratorStateDto> {
+    return this.matchOrchestratorService.pause(reason);
+  }
+
+  /**
+   * Resumes the orchestrator.
+   *
+   * @returns {Promise<MatchOrchestratorStateDto>} The updated state
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Mutation(() => MatchOrchestratorStateDto, {
+    description:
+      "Resume the automatic match orchestrator. Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  async resumeMatchOrchestrator(): Promise<MatchOrchestratorStateDto> {
+    return this.matchOrchestratorService.resume();
+  }
+}
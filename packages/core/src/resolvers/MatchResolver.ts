@@ -6,20 +6,25 @@ import {
   FieldResolver,
   Root,
   Arg,
-  Float,
+  Int,
+  Ctx,
+  Subscription,
 } from "type-graphql";
 import { Match } from "../entities/Match";
 import { SecurityLevel } from "../types/SecurityLevel";
 import { AppDataSource } from "../data-source";
-import { SaltyBoyService } from "../services/SaltyBoyService";
 import { User } from "../entities/User";
 import { FighterColor } from "../types/FighterColor";
-import { PayoutService } from "../services/PayoutService";
 import { Bet } from "../entities/Bet";
-import { BetService } from "../services/BetService";
 import { Fighter } from "../entities/Fighter";
-import { SaltyBoyMatch } from "../types/saltyboy";
 import { logger } from "../utils/logger";
+import { MatchService } from "../services/MatchService";
+import { PayoutService } from "../services/PayoutService";
+import { MatchSettlementDto } from "../dtos/MatchSettlementDto";
+import { Context, SubscriptionKeys } from "../types/Context";
+import { MatchFilterInputDto } from "../dtos/MatchFilterInputDto";
+import { MatchConnectionDto } from "../dtos/MatchConnectionDto";
+import { MatchResolvedDto } from "../dtos/MatchResolvedDto";
 
 /**
  * MatchResolver class handles all GraphQL operations related to matches.
@@ -31,51 +36,8 @@ import { logger } from "../utils/logger";
 @Resolver(() => Match)
 export class MatchResolver {
   // Service instances
-  private saltyBoyService = SaltyBoyService.getInstance();
-  private matchRepository = AppDataSource.getRepository(Match);
+  private matchService = MatchService.getInstance();
   private payoutService = PayoutService.getInstance();
-  private betService = BetService.getInstance();
-
-  // ===========================================
-  // Helper Methods
-  // ===========================================
-
-  /**
-   * Determines the winner's color based on the winner ID and match fighter IDs.
-   *
-   * @private
-   * @param {Match} match - The match to check
-   * @param {number} winnerId - The ID of the winning fighter
-   * @returns {FighterColor} The color of the winning fighter (RED or BLUE)
-   * @throws {Error} If the winner ID doesn't match either fighter
-   */
-  private getWinnerColor(match: Match, winnerId: number): FighterColor {
-    logger.debug(
-      `Determining winner color for match ${logger.cyan(
-        match.id
-      )} with winner ID ${logger.cyan(winnerId)}`
-    );
-    if (winnerId === match.fighterRedId) {
-      logger.debug(
-        `Winner is ${logger.red("RED")} fighter (ID: ${logger.cyan(winnerId)})`
-      );
-      return FighterColor.RED;
-    }
-    if (winnerId === match.fighterBlueId) {
-      logger.debug(
-        `Winner is ${logger.blue("BLUE")} fighter (ID: ${logger.cyan(
-          winnerId
-        )})`
-      );
-      return FighterColor.BLUE;
-    }
-    logger.error(
-      `Invalid winner ID ${logger.cyan(winnerId)} for match ${logger.cyan(
-        match.id
-      )}`
-    );
-    throw new Error("Winner ID does not match either fighter in this match.");
-  }
 
   // ===========================================
   // Queries
@@ -96,16 +58,66 @@ export class MatchResolver {
       "Get the most recent match in the system. Returns null if no matches exist. (Usually the current match)",
   })
   async getCurrentMatch(): Promise<Match | null> {
-    logger.debug("Fetching current match");
-    const matches = await this.matchRepository.find({
-      order: { createdAt: "DESC" },
-      take: 1,
-    });
-    const currentMatch = matches[0] || null;
-    logger.debug(
-      `Current match: ${currentMatch ? logger.cyan(currentMatch.id) : "none"}`
-    );
-    return currentMatch;
+    return this.matchService.getCurrentMatch();
+  }
+
+  /**
+   * Fetches a page of matches, newest first, as a Relay-style connection.
+   *
+   * @param {MatchFilterInputDto} filter - Which matches to include
+   * @param {number} first - Page size (max 100)
+   * @param {string} after - Cursor of the last match on the previous page
+   * @param {Context} context - The request context
+   * @returns {Promise<MatchConnectionDto>} The page of matches
+   */
+  @Query(() => MatchConnectionDto, {
+    description:
+      "Browse matches, newest first. Filter by status, winner, fighter, tier, format, date range " +
+      "or matches you bet on (requires login).",
+  })
+  async matches(
+    @Arg("filter", () => MatchFilterInputDto, { nullable: true })
+    filter: MatchFilterInputDto | undefined,
+    @Arg("first", () => Int, { defaultValue: 20 }) first: number,
+    @Arg("after", { nullable: true }) after: string | undefined,
+    @Ctx() { user }: Context
+  ): Promise<MatchConnectionDto> {
+    return this.matchService.getMatches(filter ?? {}, first, after, user?.id);
+  }
+
+  /**
+   * Fetches how a match was settled: the pools and every bettor's receipt.
+   *
+   * @param {string} matchId - The ID of the match
+   * @returns {Promise<MatchSettlementDto>} The settlement summary
+   */
+  @Authorized()
+  @Query(() => MatchSettlementDto, {
+    description: "Get the settlement of a match: its pools and what every bettor staked and received",
+  })
+  async matchSettlement(
+    @Arg("matchId", { description: "The ID of the match" }) matchId: string
+  ): Promise<MatchSettlementDto> {
+    logger.debug(`Fetching settlement for match ${logger.cyan(matchId)}`);
+    return this.payoutService.getSettlement(matchId);
+  }
+
+  /**
+   * Lists the matches whose result could not be found on Salty Boy. Each one
+   * stays LOCKED until resolved with `endMatch` (manual winner) or
+   * `resolveMatchFromSaltyBoy`.
+   *
+   * @returns {Promise<Match[]>} The unresolved matches, oldest first
+   * @requires ADMIN or PAYOUT_MANAGER permissions
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Query(() => [Match], {
+    description:
+      "Get the matches whose result could not be matched to a Salty Boy record, oldest first. " +
+      "Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  async unresolvedMatches(): Promise<Match[]> {
+    return this.matchService.getUnresolvedMatches();
   }
 
   // ===========================================
@@ -139,55 +151,17 @@ export class MatchResolver {
     })
     winner?: FighterColor
   ): Promise<Match> {
-    logger.info("Creating new match");
-    const { data, hash } = await this.saltyBoyService.getCurrentMatch();
-
-    // Check if a match with this hash already exists
-    const existingMatch = await this.matchRepository.findOne({
-      where: { id: hash },
-    });
-
-    if (existingMatch) {
-      logger.warn(`Match with hash ${logger.cyan(hash)} already exists`);
-      throw new Error(
-        "The Salty Boy API has not updated the current match yet. Please try again later."
-      );
-    }
-
-    const currentMatch = await this.getCurrentMatch();
-    if (currentMatch) {
-      logger.info(
-        `Ending current match ${logger.cyan(
-          currentMatch.id
-        )} before creating new match`
-      );
-      await this.endMatch(currentMatch.id, winner);
-    }
-
-    logger.debug(`Creating match with hash ${logger.cyan(hash)}`);
-    const match = this.matchRepository.create({
-      id: hash,
-      winner: null,
-      fighterBlueId: data.fighter_blue_info.id,
-      fighterRedId: data.fighter_red_info.id,
-    });
-
-    await this.matchRepository.save(match);
-    logger.success(`Created new match ${logger.cyan(match.id)}`);
-
-    // Schedule automatic bet finalization
-    this.betService.scheduleFinalization(hash);
-    logger.debug(`Scheduled bet finalization for match ${logger.cyan(hash)}`);
-
-    return match;
+    return this.matchService.createMatch(winner);
   }
 
   /**
    * Ends an existing match by determining the winner and processing payouts.
    * This involves:
-   * 1. Fetching the latest match data from Salty Boy
-   * 2. Determining the winner
-   * 3. Processing payouts for all bets
+   * 1. Locking bets if the match is still OPEN
+   * 2. Finding the match's result on Salty Boy by fighters and time
+   * 3. Determining the winner (LOCKED -> RESOLVED)
+   * 4. Processing payouts for all bets
+   * A match whose result can't be found is added to the unresolved queue.
    *
    * @param {string} matchId - The ID of the match to end
    * @returns {Promise<Match>} The updated match with winner set
@@ -198,7 +172,8 @@ export class MatchResolver {
   @Mutation(() => Match, {
     description:
       "End an existing match by determining the winner and processing payouts. " +
-      "This will fetch the latest match data from Salty Boy to determine the winner. " +
+      "This will search Salty Boy for the match's result to determine the winner; " +
+      "if none is found the match is added to the unresolved queue. " +
       "Requires ADMIN or PAYOUT_MANAGER permissions.",
   })
   async endMatch(
@@ -211,99 +186,157 @@ export class MatchResolver {
     })
     winner?: FighterColor
   ): Promise<Match> {
-    logger.info(`Ending match ${logger.cyan(matchId)}`);
-    const match = await this.matchRepository.findOne({
-      where: { id: matchId },
-    });
-    if (!match) {
-      logger.error(`Match ${logger.cyan(matchId)} not found`);
-      throw new Error("Match not found");
-    }
-
-    if (match.winner !== null) {
-      logger.warn(`Match ${logger.cyan(matchId)} has already been concluded`);
-      throw new Error("Match has already been concluded");
-    }
+    return this.matchService.endMatch(matchId, winner);
+  }
 
-    let data: SaltyBoyMatch | undefined;
-    let hash: string;
+  /**
+   * Resolves a match from a Salty Boy match chosen by an admin, typically to
+   * clear it from the unresolved queue. The Salty Boy match must be between
+   * the same fighters and must not have settled another match.
+   *
+   * @param {string} matchId - The ID of the match to resolve
+   * @param {number} externalId - The Salty Boy match ID holding its result
+   * @returns {Promise<Match>} The resolved match
+   * @throws {Error} If match not found, already concluded or the Salty Boy match doesn't fit
+   * @requires ADMIN or PAYOUT_MANAGER permissions
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Mutation(() => Match, {
+    description:
+      "Resolve a match from the winner of the given Salty Boy match and process payouts. " +
+      "Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  async resolveMatchFromSaltyBoy(
+    @Arg("matchId", { description: "The ID of the match to resolve" })
+    matchId: string,
+    @Arg("externalId", () => Int, { description: "The Salty Boy match ID holding the result" })
+    externalId: number
+  ): Promise<Match> {
+    return this.matchService.resolveMatchFromSaltyBoy(matchId, externalId);
+  }
 
-    // Get latest match data from Salty Boy
-    logger.debug(`Fetching next latest match data for ${logger.cyan(matchId)}`);
-    const nextLatestMatch = await this.saltyBoyService.getNextLatestMatch();
-    data = nextLatestMatch.data;
-    hash = nextLatestMatch.hash;
+  /**
+   * Corrects the winner of a resolved match. This involves:
+   * 1. Reversing every payout/refund made for the previous winner
+   * 2. Rolling back the win/loss stats recorded for the previous winner
+   * 3. Re-running payouts for the corrected winner
+   * All balance and stat changes commit in one transaction; period stats are
+   * applied together once it has committed.
+   *
+   * @param {string} matchId - The ID of the match to correct
+   * @param {FighterColor} winner - The correct winner
+   * @returns {Promise<Match>} The corrected match
+   * @throws {Error} If match not found, not resolved, or already has this winner
+   * @requires ADMIN or PAYOUT_MANAGER permissions
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Mutation(() => Match, {
+    description:
+      "Correct the winner of a resolved match. Reverses the original payouts and stats " +
+      "and re-runs payouts for the corrected winner. " +
+      "Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  async correctMatchWinner(
+    @Arg("matchId", { description: "The ID of the match to correct" })
+    matchId: string,
+    @Arg("winner", () => FighterColor, { description: "The correct winner" })
+    winner: FighterColor
+  ): Promise<Match> {
+    return this.matchService.correctMatchWinner(matchId, winner);
+  }
 
-    // If the current match hash doesn't match our match ID, recrawl
-    if (!this.saltyBoyService.compareMatchHashes(hash, matchId)) {
-      logger.warn(
-        `Match hash mismatch for ${logger.cyan(matchId)} and ${logger.cyan(
-          hash
-        )}, attempting to crawl latest match`
-      );
-      const currentCrawledMatchId = await this.saltyBoyService.getLatestSaltyBoyMatchId();
-      const latestCrawledMatch = await this.saltyBoyService.crawlLatestMatch();
-      if (!latestCrawledMatch) {
-        logger.error(
-          `Failed to crawl latest match for ${logger.cyan(matchId)}`
-        );
-        throw new Error("Failed to crawl latest match");
-      }
-      data = latestCrawledMatch.data;
-      hash = latestCrawledMatch.hash;
-      // If we still can't match the hashes after crawling, something is wrong
-      // This can happen if the Salty Boy API hasn't updated yet or if there's a sync issue
-      if (!this.saltyBoyService.compareMatchHashes(hash, matchId)) {
-        if (!winner) {
-          logger.error(
-            `Latest match hash ${logger.cyan(
-              hash
-            )} does not match match ID ${logger.cyan(matchId)}`
-          );
-          logger.debug(`Resetting latest match ID to ${logger.cyan(currentCrawledMatchId)}`);
-          // Reset latest match ID to null since we can't verify the match
-          await this.saltyBoyService.setLatestSaltyBoyMatchId(currentCrawledMatchId.toString());
-          throw new Error(
-            "Latest match hash does not match match ID. Please provide a winner to end this match manually"
-          );
-        }
-        // Clear data and hash since they don't match our match ID and we're using a manual winner
-        data = undefined;
-        hash = undefined;
-        logger.warn(
-          `Latest match hash ${logger.cyan(
-            hash
-          )} does not match match ID ${logger.cyan(
-            matchId
-          )}. Using manually specified winner`
-        );
-      }
-    }
+  /**
+   * Voids a match that cannot be settled (exhibition glitch, stream crash, etc.).
+   * This involves:
+   * 1. Locking betting so no new wagers arrive
+   * 2. Marking the match VOIDED with the given reason
+   * 3. Refunding every finalized bet and discarding in-flight Redis wagers
+   * Win/loss stats are not touched.
+   *
+   * @param {string} matchId - The ID of the match to void
+   * @param {string} reason - Why the match is being voided
+   * @returns {Promise<Match>} The voided match
+   * @throws {Error} If match not found or already resolved/voided
+   * @requires ADMIN or PAYOUT_MANAGER permissions
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Mutation(() => Match, {
+    description:
+      "Void an open or locked match and refund every bet placed on it. " +
+      "Win/loss stats are not affected. " +
+      "Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  async voidMatch(
+    @Arg("matchId", { description: "The ID of the match to void" })
+    matchId: string,
+    @Arg("reason", { description: "Why the match is being voided" })
+    reason: string
+  ): Promise<Match> {
+    return this.matchService.voidMatch(matchId, reason);
+  }
 
-    logger.debug(`Setting latest match ID to ${logger.cyan(data.id)}`);
-    this.saltyBoyService.setLatestSaltyBoyMatchId(nextLatestMatch.data.id.toString());
+  // ===========================================
+  // Subscriptions
+  // ===========================================
 
-    // Update match winner
-    logger.debug(`Determining winner for match ${logger.cyan(matchId)}`);
-    const winnerColor = data ? this.getWinnerColor(match, data.winner) : winner;
-    match.winner = winnerColor;
-    match.externalId = data?.id;
+  /**
+   * Subscription for when a new match is created, whether by a manager or
+   * the match orchestrator.
+   *
+   * @param {Match} match - The new match
+   * @returns {Match} The new match
+   */
+  @Subscription(() => Match, {
+    topics: SubscriptionKeys.MatchCreated,
+    description: "A new match was created",
+  })
+  matchCreated(@Root() match: Match): Match {
+    logger.debug(`Match ${logger.cyan(match.id)} created via subscription`);
+    return match;
+  }
 
-    await this.matchRepository.save(match);
-    logger.success(
-      `Match ${logger.cyan(matchId)} ended with winner: ${logger.cyan(
-        winnerColor
-      )}`
-    );
+  /**
+   * Subscription for when betting closes on a match (OPEN -> LOCKED).
+   *
+   * @param {Match} match - The locked match
+   * @returns {Match} The locked match
+   */
+  @Subscription(() => Match, {
+    topics: SubscriptionKeys.BetsLocked,
+    description: "Bets were locked on a match",
+  })
+  betsLocked(@Root() match: Match): Match {
+    logger.debug(`Bets locked on match ${logger.cyan(match.id)} via subscription`);
+    return match;
+  }
 
-    // Process payouts
-    logger.debug(`Processing payouts for match ${logger.cyan(matchId)}`);
-    await this.payoutService.calculateAndDistributePayouts(
-      matchId,
-      winnerColor
-    );
-    logger.success(`Payouts processed for match ${logger.cyan(matchId)}`);
+  /**
+   * Subscription for when a match is resolved or its winner corrected.
+   *
+   * @param {MatchResolvedDto} event - The match, its winner and its settlement
+   * @returns {MatchResolvedDto} The event
+   */
+  @Subscription(() => MatchResolvedDto, {
+    topics: SubscriptionKeys.MatchResolved,
+    description: "A match was resolved (or its winner corrected), with its settlement",
+  })
+  matchResolved(@Root() event: MatchResolvedDto): MatchResolvedDto {
+    logger.debug(`Match ${logger.cyan(event.match.id)} resolved via subscription`);
+    return event;
+  }
 
+  /**
+   * Subscription for when a match is voided and its bets refunded.
+   *
+   * @param {Match} match - The voided match
+   * @returns {Match} The voided match
+   */
+  @Subscription(() => Match, {
+    topics: SubscriptionKeys.MatchVoided,
+    description: "A match was voided and its bets refunded",
+  })
+  matchVoided(@Root() match: Match): Match {
+    logger.debug(`Match ${logger.cyan(match.id)} voided via subscription`);
     return match;
   }
 
@@ -312,31 +345,49 @@ export class MatchResolver {
   // ===========================================
 
   /**
-   * Resolves the blue fighter for a match by fetching from Salty Boy API.
+   * Resolves the blue fighter for a match from the stored fighters, batched
+   * with every other fighter lookup in the request.
    *
    * @param {Match} match - The match to get the blue fighter for
-   * @returns {Promise<Fighter>} The blue fighter
+   * @param {Context} context - The request context
+   * @returns {Promise<Fighter | null>} The blue fighter, or null if Salty Boy has no record of them
    */
   @FieldResolver(() => Fighter, {
-    description: "Get the blue fighter for this match from Salty Boy API",
+    nullable: true,
+    description:
+      "Get the blue fighter for this match. Null when Salty Boy has no record of the fighter " +
+      "(e.g. exhibitions); use fighterBlueName instead",
   })
-  async fighterBlue(@Root() match: Match): Promise<Fighter> {
+  async fighterBlue(
+    @Root() match: Match,
+    @Ctx() { fighterLoader }: Context
+  ): Promise<Fighter | null> {
+    if (match.fighterBlueId === null) return null;
     logger.debug(`Fetching blue fighter for match ${logger.cyan(match.id)}`);
-    return await this.saltyBoyService.getFighterById(match.fighterBlueId);
+    return fighterLoader.load(match.fighterBlueId);
   }
 
   /**
-   * Resolves the red fighter for a match by fetching from Salty Boy API.
+   * Resolves the red fighter for a match from the stored fighters, batched
+   * with every other fighter lookup in the request.
    *
    * @param {Match} match - The match to get the red fighter for
-   * @returns {Promise<Fighter>} The red fighter
+   * @param {Context} context - The request context
+   * @returns {Promise<Fighter | null>} The red fighter, or null if Salty Boy has no record of them
    */
   @FieldResolver(() => Fighter, {
-    description: "Get the red fighter for this match from Salty Boy API",
+    nullable: true,
+    description:
+      "Get the red fighter for this match. Null when Salty Boy has no record of the fighter " +
+      "(e.g. exhibitions); use fighterRedName instead",
   })
-  async fighterRed(@Root() match: Match): Promise<Fighter> {
+  async fighterRed(
+    @Root() match: Match,
+    @Ctx() { fighterLoader }: Context
+  ): Promise<Fighter | null> {
+    if (match.fighterRedId === null) return null;
     logger.debug(`Fetching red fighter for match ${logger.cyan(match.id)}`);
-    return await this.saltyBoyService.getFighterById(match.fighterRedId);
+    return fighterLoader.load(match.fighterRedId);
   }
 
   /**
@@ -373,10 +424,10 @@ export class MatchResolver {
    * Calculates the total amount of bets placed on the blue fighter.
    *
    * @param {Match} match - The match to calculate bets for
-   * @returns {Promise<number>} Total amount bet on blue fighter
+   * @returns {Promise<number>} Total amount bet on blue fighter in cents
    */
-  @FieldResolver(() => Float, {
-    description: "Get the total amount of bets placed on the blue fighter",
+  @FieldResolver(() => Int, {
+    description: "Get the total amount of bets placed on the blue fighter in cents",
   })
   async totalBlueBets(@Root() match: Match): Promise<number> {
     logger.debug(
@@ -389,7 +440,7 @@ export class MatchResolver {
       .andWhere("bet.fighterColor = :color", { color: FighterColor.BLUE })
       .getRawOne();
 
-    const total = parseFloat(result?.total || "0");
+    const total = parseInt(result?.total || "0");
     logger.debug(
       `Total blue bets for match ${logger.cyan(match.id)}: ${logger.cyan(
         total
@@ -402,10 +453,10 @@ export class MatchResolver {
    * Calculates the total amount of bets placed on the red fighter.
    *
    * @param {Match} match - The match to calculate bets for
-   * @returns {Promise<number>} Total amount bet on red fighter
+   * @returns {Promise<number>} Total amount bet on red fighter in cents
    */
-  @FieldResolver(() => Float, {
-    description: "Get the total amount of bets placed on the red fighter",
+  @FieldResolver(() => Int, {
+    description: "Get the total amount of bets placed on the red fighter in cents",
   })
   async totalRedBets(@Root() match: Match): Promise<number> {
     logger.debug(
@@ -418,7 +469,7 @@ export class MatchResolver {
       .andWhere("bet.fighterColor = :color", { color: FighterColor.RED })
       .getRawOne();
 
-    const total = parseFloat(result?.total || "0");
+    const total = parseInt(result?.total || "0");
     logger.debug(
       `Total red bets for match ${logger.cyan(match.id)}: ${logger.cyan(total)}`
     );
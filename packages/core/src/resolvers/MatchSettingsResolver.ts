@@ -0,0 +1,65 @@
+import { Resolver, Query, Mutation, Arg, Authorized } from "type-graphql";
+import { MatchSettingsService } from "../services/MatchSettingsService";
+import { MatchSettingsDto } from "../dtos/MatchSettingsDto";
+import { MatchFormat } from "../types/MatchFormat";
+import { SecurityLevel } from "../types/SecurityLevel";
+import { logger } from "../utils/logger";
+
+/**
+ * MatchSettingsResolver exposes the admin settings that control how new
+ * matches are run, such as which match formats are bettable.
+ *
+ * @class MatchSettingsResolver
+ */
+@Resolver()
+export class MatchSettingsResolver {
+  // ============================================
+  // Properties
+  // ============================================
+  private matchSettingsService = MatchSettingsService.getInstance();
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  /**
+   * Fetches the current match settings.
+   *
+   * @returns {Promise<MatchSettingsDto>} The match settings
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Query(() => MatchSettingsDto, {
+    description:
+      "Get the match settings. Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  async matchSettings(): Promise<MatchSettingsDto> {
+    logger.debug("Fetching match settings");
+    return this.matchSettingsService.getSettings();
+  }
+
+  // ============================================
+  // Mutations
+  // ============================================
+
+  /**
+   * Sets which match formats open for betting. Matches already created keep
+   * the setting they were created with.
+   *
+   * @param {MatchFormat[]} formats - The formats that should be bettable
+   * @returns {Promise<MatchSettingsDto>} The updated settings
+   */
+  @Authorized([SecurityLevel.ADMIN])
+  @Mutation(() => MatchSettingsDto, {
+    description:
+      "Set which match formats open for betting. Applies to matches created from now on. " +
+      "Requires ADMIN permissions.",
+  })
+  async updateBettableFormats(
+    @Arg("formats", () => [MatchFormat], {
+      description: "The match formats that should be bettable",
+    })
+    formats: MatchFormat[]
+  ): Promise<MatchSettingsDto> {
+    return this.matchSettingsService.setBettableFormats(formats);
+  }
+}
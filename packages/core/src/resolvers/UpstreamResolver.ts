@@ -0,0 +1,37 @@
+import { Resolver, Query, Authorized } from "type-graphql";
+import { SaltyBoyService } from "../services/SaltyBoyService";
+import { UpstreamHealthDto } from "../dtos/UpstreamHealthDto";
+import { SecurityLevel } from "../types/SecurityLevel";
+import { logger } from "../utils/logger";
+
+/**
+ * UpstreamResolver reports on the external services the backend depends on.
+ *
+ * @class UpstreamResolver
+ */
+@Resolver()
+export class UpstreamResolver {
+  // ============================================
+  // Properties
+  // ============================================
+  private saltyBoyService = SaltyBoyService.getInstance();
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  /**
+   * Fetches the health of the Salty Boy match data provider.
+   *
+   * @returns {UpstreamHealthDto} Circuit breaker state and recent failures
+   */
+  @Authorized([SecurityLevel.ADMIN, SecurityLevel.PAYOUT_MANAGER])
+  @Query(() => UpstreamHealthDto, {
+    description:
+      "Get the health of the Salty Boy API (circuit breaker state, recent failures). Requires ADMIN or PAYOUT_MANAGER permissions.",
+  })
+  upstreamHealth(): UpstreamHealthDto {
+    logger.debug("Fetching upstream health");
+    return this.saltyBoyService.getUpstreamHealth();
+  }
+}
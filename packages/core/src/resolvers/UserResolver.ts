@@ -7,6 +7,7 @@ import {
   Ctx,
   Authorized,
   Query,
+  Int,
 } from "type-graphql";
 import { User } from "../entities/User";
 import { CreateUserInputDto, UpdateUserInputDto } from "../dtos/UserInputDto";
@@ -19,6 +20,8 @@ import { PeriodStatsDto } from "../dtos/PeriodStatsDto";
 import * as bcryptjs from "bcryptjs";
 import { Match } from "../entities/Match";
 import { logger } from "../utils/logger";
+import { LedgerService } from "../services/LedgerService";
+import { LedgerEntryType } from "../types/LedgerEntryType";
 
 /**
  * UserResolver handles all GraphQL operations related to users, including authentication, CRUD, and computed fields.
@@ -33,6 +36,7 @@ export class UserResolver {
   // ============================================
   private userRepository = AppDataSource.getRepository(User);
   private periodStatsService = PeriodStatsService.getInstance();
+  private ledgerService = LedgerService.getInstance();
 
   // ============================================
   // Computed Field Resolvers
@@ -56,9 +60,9 @@ export class UserResolver {
    * Calculates the gross revenue for a user.
    *
    * @param {User} user - The user entity
-   * @returns {number} The gross revenue
+   * @returns {number} The gross revenue in cents
    */
-  @FieldResolver()
+  @FieldResolver(() => Int)
   grossRevenue(@Root() user: User): number {
     logger.debug(`Calculating gross revenue for user ${logger.cyan(user.id)}`);
     return user.totalRevenueGained - user.totalRevenueLost;
@@ -77,7 +81,7 @@ export class UserResolver {
   }
 
   /**
-   * Retrieves all matches a user has bet on.
+   * Retrieves every match a user has bet on, once each, newest first.
    *
    * @param {User} user - The user entity
    * @returns {Promise<Match[]>} Array of matches
@@ -85,18 +89,14 @@ export class UserResolver {
   @FieldResolver(() => [Match])
   async matches(@Root() user: User): Promise<Match[]> {
     logger.debug(`Fetching matches for user ${logger.cyan(user.id)}`);
-    const bets = await AppDataSource.getRepository(User)
-      .createQueryBuilder("user")
-      .leftJoinAndSelect("user.bets", "bet")
-      .leftJoinAndSelect("bet.match", "match")
-      .where("user.id = :userId", { userId: user.id })
-      .getOne();
-
-    if (!bets) {
-      logger.warn(`No bets found for user ${logger.cyan(user.id)}`);
-      return [];
-    }
-    return bets.bets.map((bet) => bet.match);
+    return AppDataSource.getRepository(Match)
+      .createQueryBuilder("match")
+      .where(
+        'EXISTS (SELECT 1 FROM "bet" WHERE "bet"."matchId" = "match"."id" AND "bet"."userId" = :userId)',
+        { userId: user.id }
+      )
+      .orderBy("match.createdAt", "DESC")
+      .getMany();
   }
 
   // ============================================
@@ -178,7 +178,7 @@ export class UserResolver {
   @Authorized()
   @Mutation(() => Boolean)
   async logout(@Ctx() { req }: Context): Promise<boolean> {
-    const authHeader = req.headers.authorization;
+    const authHeader = req?.headers.authorization;
     if (!authHeader) {
       logger.warn("No authorization header found during logout");
       return false;
@@ -225,8 +225,22 @@ export class UserResolver {
       throw new Error("Unauthorized to create users");
     }
 
-    const newUser = this.userRepository.create(input);
-    const savedUser = await this.userRepository.save(newUser);
+    const { balance, ...details } = input;
+    const savedUser = await AppDataSource.transaction(async (manager) => {
+      const newUser = manager.create(User, { ...details, balance: 0 });
+      await manager.save(newUser);
+      // Record the starting balance in the ledger like any other adjustment
+      if (balance) {
+        await this.ledgerService.record(
+          manager,
+          newUser,
+          balance,
+          LedgerEntryType.ADMIN_ADJUSTMENT,
+          { actor: user, description: "Initial balance" }
+        );
+      }
+      return newUser;
+    });
     logger.success(
       `User ${logger.cyan(savedUser.id)} created successfully by ${logger.cyan(
         user.id
@@ -283,8 +297,29 @@ export class UserResolver {
       input.password = await bcryptjs.hash(input.password, 10);
     }
 
-    Object.assign(targetUser, input);
-    const updatedUser = await this.userRepository.save(targetUser);
+    const { balance, ...details } = input;
+    const updatedUser = await AppDataSource.transaction(async (manager) => {
+      // Re-read under a lock so a concurrent balance change is not overwritten
+      const lockedUser = (
+        await this.ledgerService.lockUsers(manager, [targetUser.id])
+      ).get(targetUser.id);
+      if (!lockedUser) {
+        throw new Error("User not found");
+      }
+      Object.assign(lockedUser, details);
+      // Balance changes go through the ledger so they are never silent
+      if (balance !== undefined && balance !== null && balance !== lockedUser.balance) {
+        await this.ledgerService.record(
+          manager,
+          lockedUser,
+          balance - lockedUser.balance,
+          LedgerEntryType.ADMIN_ADJUSTMENT,
+          { actor: user, description: `Balance set to ${balance}` }
+        );
+        return lockedUser;
+      }
+      return manager.save(lockedUser);
+    });
     logger.success(
       `User ${logger.cyan(
         updatedUser.id
@@ -339,7 +374,7 @@ export class UserResolver {
    * Updates a user's balance by a specified amount. Admin only.
    *
    * @param {string} username - The username (alias) of the user whose balance will be updated
-   * @param {number} amount - The amount to add (or subtract) from the user's balance
+   * @param {number} amount - The amount in cents to add (or subtract) from the user's balance
    * @param {Context} ctx - The request context
    * @returns {Promise<User>} The updated user
    * @throws {Error} If not admin or user not found
@@ -348,23 +383,33 @@ export class UserResolver {
   @Mutation(() => User)
   async updateUserBalance(
     @Arg("username") username: string,
-    @Arg("amount") amount: number,
+    @Arg("amount", () => Int, { description: "Amount in cents (negative to subtract)" })
+    amount: number,
     @Ctx() { user }: Context
   ): Promise<User> {
     logger.info(
       `Admin ${logger.cyan(user.id)} updating balance for user ${logger.cyan(username)} by ${logger.cyan(amount)}`
     );
 
-    const targetUser = await this.userRepository.findOne({ where: { username } });
-    if (!targetUser) {
-      logger.error(`User not found for balance update: ${logger.cyan(username)}`);
-      throw new Error("User not found");
-    }
-
-    // Support true floats for balance (fractional cents allowed)
-    const currentBalance = parseFloat(targetUser.balance as any);
-    targetUser.balance = currentBalance + amount;
-    const updatedUser = await this.userRepository.save(targetUser);
+    const updatedUser = await AppDataSource.transaction(async (manager) => {
+      // Locked so a concurrent payout or bet debit is not overwritten
+      const targetUser = await manager.findOne(User, {
+        where: { username },
+        lock: { mode: "pessimistic_write" },
+      });
+      if (!targetUser) {
+        logger.error(`User not found for balance update: ${logger.cyan(username)}`);
+        throw new Error("User not found");
+      }
+      await this.ledgerService.record(
+        manager,
+        targetUser,
+        amount,
+        LedgerEntryType.ADMIN_ADJUSTMENT,
+        { actor: user }
+      );
+      return targetUser;
+    });
 
     logger.success(
       `Balance for user ${logger.cyan(username)} updated by admin ${logger.cyan(user.id)}. New balance: ${logger.cyan(updatedUser.balance)}`
@@ -0,0 +1,10 @@
+-- Adjust available balance script
+-- KEYS[1] = availableKey  (balance:available:<userId>)
+-- ARGV[1] = signed amount (integer cents)
+
+-- Only touch an existing mirror; a missing one is re-seeded from Postgres
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  return redis.call('INCRBY', KEYS[1], tonumber(ARGV[1]))
+end
+
+return false
\ No newline at end of file
@@ -0,0 +1,25 @@
+-- Apply period stats script
+-- KEYS[1]    = appliedKey (period:applied:<batchId>, set once the batch has been applied)
+-- KEYS[2..n] = stat keys  (period:<userId>:<stat>)
+-- ARGV[1]    = appliedKey TTL in seconds
+-- ARGV[2..n] = signed amount for the stat key at the same position
+
+-- A batch that was already applied is never counted again
+if redis.call('EXISTS', KEYS[1]) == 1 then
+  return 0
+end
+
+-- Check every value before writing any, so a bad key can't leave the batch
+-- half applied
+for i = 2, #KEYS do
+  local value = redis.call('GET', KEYS[i])
+  if value and not string.match(value, '^-?%d+$') then
+    return redis.error_reply('NOT_INTEGER ' .. KEYS[i])
+  end
+end
+
+for i = 2, #KEYS do
+  redis.call('INCRBY', KEYS[i], tonumber(ARGV[i]))
+end
+redis.call('SET', KEYS[1], '1', 'EX', tonumber(ARGV[1]))
+return 1
@@ -1,13 +1,32 @@
 -- Cancel bet script
--- KEYS[1] = betKey
--- ARGV[1] = amount
+-- KEYS[1] = betKey        (bet:active:<matchId>:user:<userId>)
+-- KEYS[2] = blueTotalKey  (bet:active:<matchId>:total:BLUE)
+-- KEYS[3] = redTotalKey   (bet:active:<matchId>:total:RED)
+-- KEYS[4] = bettorsKey    (bet:active:<matchId>:bettors)
+-- KEYS[5] = lockKey       (bet:locked:<matchId>, set once bets are finalized)
+-- KEYS[6] = availableKey  (balance:available:<userId>)
+-- KEYS[7] = idempotencyKey (bet:idempotency:<userId>:cancel:<key>, or '' without a key)
+-- ARGV[1] = amount (integer cents)
+-- ARGV[2] = userId
+-- ARGV[3] = matchId
+-- ARGV[4] = idempotencyKey TTL in seconds
+
+-- A retried request that was already applied succeeds without cancelling again
+if KEYS[7] ~= '' and redis.call('EXISTS', KEYS[7]) == 1 then
+  return {'ok', 'REPLAY'}
+end
+
+-- Reject cancellations once the match has been locked
+if redis.call('EXISTS', KEYS[5]) == 1 then
+  return {'err', 'BETS_LOCKED'}
+end
 
 -- Get current values
 local bet = redis.call('HGETALL', KEYS[1])
 
 -- Validate bet exists
 if #bet == 0 then
-  return {err = 'NO_BET'}
+  return {'err', 'NO_BET'}
 end
 
 -- Get current bet amount and color
@@ -23,7 +42,7 @@ end
 
 -- Validate amount
 if currentBetAmount < tonumber(ARGV[1]) then
-  return {err = 'INSUFFICIENT_BET'}
+  return {'err', 'INSUFFICIENT_BET'}
 end
 
 -- Calculate new values
@@ -32,12 +51,26 @@ local newBetAmount = currentBetAmount - tonumber(ARGV[1])
 -- Update or delete bet
 if newBetAmount == 0 then
   redis.call('DEL', KEYS[1])
+  redis.call('SREM', KEYS[4], ARGV[2])
 else
   redis.call('HSET', KEYS[1], 'amount', newBetAmount)
 end
 
 -- Update total
-local totalKey = 'bet:active:total:' .. fighterColor
-redis.call('INCRBYFLOAT', totalKey, -tonumber(ARGV[1]))
+local totalKey = KEYS[3]
+if fighterColor == 'BLUE' then
+  totalKey = KEYS[2]
+end
+redis.call('INCRBY', totalKey, -tonumber(ARGV[1]))
+
+-- Release the reservation (a missing mirror is re-seeded on the next bet)
+if redis.call('EXISTS', KEYS[6]) == 1 then
+  redis.call('INCRBY', KEYS[6], tonumber(ARGV[1]))
+end
+
+-- Remember the request so a retry is not applied twice
+if KEYS[7] ~= '' then
+  redis.call('SET', KEYS[7], ARGV[3], 'EX', tonumber(ARGV[4]))
+end
 
 return {ok = true} 
\ No newline at end of file
@@ -0,0 +1,15 @@
+-- Claim due finalizations script
+-- KEYS[1] = scheduleKey (bet:finalization:schedule, match ids scored by deadline)
+-- ARGV[1] = now (epoch ms)
+-- ARGV[2] = leaseUntil (epoch ms)
+-- ARGV[3] = limit
+
+-- Take up to limit matches whose deadline has passed
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[3]))
+
+-- Push each claimed deadline out to the lease so no other worker picks it up
+for _, matchId in ipairs(due) do
+  redis.call('ZADD', KEYS[1], 'XX', ARGV[2], matchId)
+end
+
+return due
\ No newline at end of file
@@ -0,0 +1,21 @@
+-- Convert legacy period revenue script
+-- KEYS[1] = legacyKey (period:<userId>:<revenueGained|revenueLost>, dollars written by INCRBYFLOAT)
+-- KEYS[2] = centsKey  (period:<userId>:<revenueGainedCents|revenueLostCents>)
+
+-- Folds the legacy dollar value into the cents key and deletes it, so running
+-- it again (or on another server) never counts the same value twice
+local dollars = tonumber(redis.call('GET', KEYS[1]))
+if dollars == nil then
+  return false
+end
+
+local cents = dollars * 100
+if cents >= 0 then
+  cents = math.floor(cents + 0.5)
+else
+  cents = -math.floor(-cents + 0.5)
+end
+
+redis.call('INCRBY', KEYS[2], cents)
+redis.call('DEL', KEYS[1])
+return cents
@@ -0,0 +1,10 @@
+-- Extend lock script
+-- KEYS[1] = lockKey (lock:<name>)
+-- ARGV[1] = token   (random value set by the holder when it took the lock)
+-- ARGV[2] = lease in milliseconds
+
+-- Only the holder may extend; returns 0 once the lock has been lost
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], tonumber(ARGV[2]))
+end
+return 0
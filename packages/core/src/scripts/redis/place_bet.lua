@@ -1,8 +1,29 @@
 -- Place bet script
--- KEYS[1] = betKey
--- KEYS[2] = totalKey
--- ARGV[1] = amount
+-- KEYS[1] = betKey      (bet:active:<matchId>:user:<userId>)
+-- KEYS[2] = totalKey    (bet:active:<matchId>:total:<color>)
+-- KEYS[3] = matchesKey  (set of match ids that have active bet state)
+-- KEYS[4] = bettorsKey  (bet:active:<matchId>:bettors)
+-- KEYS[5] = lockKey     (bet:locked:<matchId>, set once bets are finalized)
+-- KEYS[6] = availableKey (balance:available:<userId>)
+-- KEYS[7] = idempotencyKey (bet:idempotency:<userId>:place:<key>, or '' without a key)
+-- ARGV[1] = amount (integer cents)
 -- ARGV[2] = fighterColor
+-- ARGV[3] = matchId
+-- ARGV[4] = userId
+-- ARGV[5] = current Postgres balance (integer cents, only used to seed availableKey),
+--           or '' to ask for it with NEEDS_SEED when availableKey is missing
+-- ARGV[6] = availableKey TTL in seconds
+-- ARGV[7] = idempotencyKey TTL in seconds
+
+-- A retried request that was already applied succeeds without betting again
+if KEYS[7] ~= '' and redis.call('EXISTS', KEYS[7]) == 1 then
+  return {'ok', 'REPLAY'}
+end
+
+-- Reject bets once the match has been locked
+if redis.call('EXISTS', KEYS[5]) == 1 then
+  return {'err', 'BETS_LOCKED'}
+end
 
 -- Get current values
 local bet = redis.call('HGETALL', KEYS[1])
@@ -19,11 +40,33 @@ if #bet > 0 then
   end
 end
 
+-- Seed the available balance from Postgres minus what is already in flight
+if redis.call('EXISTS', KEYS[6]) == 0 then
+  if ARGV[5] == '' then
+    return {'err', 'NEEDS_SEED'}
+  end
+  redis.call('SET', KEYS[6], tonumber(ARGV[5]) - currentBetAmount, 'EX', tonumber(ARGV[6]))
+end
+
+-- Reserve the amount against the available balance
+local available = tonumber(redis.call('GET', KEYS[6]))
+if available < tonumber(ARGV[1]) then
+  return {'err', 'INSUFFICIENT_BALANCE'}
+end
+redis.call('DECRBY', KEYS[6], tonumber(ARGV[1]))
+
 local newBetAmount = currentBetAmount + tonumber(ARGV[1])
 local newTotal = total + tonumber(ARGV[1])
 
 -- Update all values
-redis.call('HSET', KEYS[1], 'amount', newBetAmount, 'color', ARGV[2])
+redis.call('HSET', KEYS[1], 'amount', newBetAmount, 'color', ARGV[2], 'matchId', ARGV[3])
 redis.call('SET', KEYS[2], newTotal)
+redis.call('SADD', KEYS[3], ARGV[3])
+redis.call('SADD', KEYS[4], ARGV[4])
+
+-- Remember the request so a retry is not applied twice
+if KEYS[7] ~= '' then
+  redis.call('SET', KEYS[7], ARGV[3], 'EX', tonumber(ARGV[7]))
+end
 
 return {ok = true} 
\ No newline at end of file
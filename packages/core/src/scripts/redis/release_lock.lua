@@ -0,0 +1,10 @@
+-- Release lock script
+-- KEYS[1] = lockKey (lock:<name>)
+-- ARGV[1] = token   (random value set by the holder when it took the lock)
+
+-- Only the holder may release; a lock that expired and was taken by someone
+-- else is left alone
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
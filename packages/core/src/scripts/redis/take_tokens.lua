@@ -0,0 +1,40 @@
+-- Token bucket script
+-- KEYS[i]      = bucketKey (ratelimit:<operation>:<user:<id>|ip:<ip>|global>)
+-- ARGV[2i - 1] = capacity of bucket i (requests allowed in a burst)
+-- ARGV[2i]     = refill rate of bucket i (tokens per second)
+-- Returns {1, 0} when a token was taken from every bucket, otherwise
+-- {0, retryAfterMs} and no bucket is touched.
+
+-- Use the Redis clock so every server agrees on elapsed time
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+-- Refill each bucket for the time elapsed since it was last used
+local tokens = {}
+local retryAfter = 0
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[2 * i - 1])
+  local rate = tonumber(ARGV[2 * i])
+  local bucket = redis.call('HMGET', key, 'tokens', 'updatedAt')
+  local available = tonumber(bucket[1]) or capacity
+  local updatedAt = tonumber(bucket[2]) or now
+  available = math.min(capacity, available + math.max(0, now - updatedAt) * rate / 1000)
+  tokens[i] = available
+  if available < 1 then
+    retryAfter = math.max(retryAfter, math.ceil((1 - available) * 1000 / rate))
+  end
+end
+
+if retryAfter > 0 then
+  return {0, retryAfter}
+end
+
+-- Take one token from every bucket; an idle bucket expires once it would be full again
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[2 * i - 1])
+  local rate = tonumber(ARGV[2 * i])
+  redis.call('HSET', key, 'tokens', tostring(tokens[i] - 1), 'updatedAt', now)
+  redis.call('PEXPIRE', key, math.ceil(capacity * 1000 / rate))
+end
+
+return {1, 0}
@@ -1,25 +1,29 @@
-import { AppDataSource } from "../data-source";
+import { AppDataSource, initializeDataSource } from "../data-source";
 import { User } from "../entities/User";
 import { SecurityLevel } from "../types/SecurityLevel";
 import { Match } from "../entities/Match";
 import { Bet } from "../entities/Bet";
+import { LedgerEntry } from "../entities/LedgerEntry";
 
 /**
- * Seeds the database by clearing all bets, matches, and users, then creating an admin user.
+ * Seeds the database by clearing all ledger entries, bets, matches, and users, then creating an admin user.
  * Deletion order is important to avoid foreign key constraint errors:
- * 1. Bets (references User and Match)
- * 2. Matches (may be referenced by Bet)
- * 3. Users (may be referenced by Bet)
+ * 1. Ledger entries (references User, Match and Bet)
+ * 2. Bets (references User and Match)
+ * 3. Matches (may be referenced by Bet)
+ * 4. Users (may be referenced by Bet)
  *
  * @returns {Promise<void>} Resolves when seeding is complete
  */
 async function seed() {
   try {
     // Initialize the database connection
-    await AppDataSource.initialize();
+    await initializeDataSource();
     console.log("Database connection initialized");
 
-    // Clear existing bets, matches, and users (in this order to avoid FK errors)
+    // Clear existing ledger entries, bets, matches, and users (in this order to avoid FK errors)
+    await AppDataSource.getRepository(LedgerEntry).delete({});
+    console.log("Cleared existing ledger entries");
     await AppDataSource.getRepository(Bet).delete({});
     console.log("Cleared existing bets");
     await AppDataSource.getRepository(Match).delete({});
@@ -2,20 +2,32 @@ import "reflect-metadata";
 import { ApolloServer } from "@apollo/server";
 import { buildSchema } from "type-graphql";
 import { UserResolver } from "./resolvers/UserResolver";
-import { AppDataSource } from "./data-source";
+import { initializeDataSource } from "./data-source";
 import { AuthorizationService } from "./services/AuthorizationService";
 import { BetResolver } from "./resolvers/BetResolver";
-import { createPubSub } from "@graphql-yoga/subscription";
+import { PubSubService } from "./services/PubSubService";
 import { MatchResolver } from "./resolvers/MatchResolver";
+import { LedgerResolver } from "./resolvers/LedgerResolver";
+import { MatchOrchestratorResolver } from "./resolvers/MatchOrchestratorResolver";
+import { UpstreamResolver } from "./resolvers/UpstreamResolver";
+import { MatchSettingsResolver } from "./resolvers/MatchSettingsResolver";
 import * as path from "path";
 
 export async function createServer() {
-  // Create PubSub instance
-  const pubSub = createPubSub();
+  // Shared with services so they can publish lifecycle events
+  const pubSub = PubSubService.getInstance().getPubSub();
 
   // Build TypeGraphQL executable schema
   const schema = await buildSchema({
-    resolvers: [UserResolver, BetResolver, MatchResolver],
+    resolvers: [
+      UserResolver,
+      BetResolver,
+      MatchResolver,
+      LedgerResolver,
+      MatchOrchestratorResolver,
+      UpstreamResolver,
+      MatchSettingsResolver,
+    ],
     validate: true,
     authChecker: AuthorizationService.authChecker,
     pubSub, // Add PubSub to the schema
@@ -31,7 +43,7 @@ export async function createServer() {
   });
 
   // Initialize database connection
-  await AppDataSource.initialize();
+  await initializeDataSource();
 
-  return { server, pubSub };
+  return { server, schema, pubSub };
 }
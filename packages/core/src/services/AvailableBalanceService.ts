@@ -0,0 +1,128 @@
+import { EntityManager, QueryRunner } from "typeorm";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { RedisService } from "./RedisService";
+import { logger } from "../utils/logger";
+
+/**
+ * A pending change to a user's available-balance mirror, applied once the
+ * transaction that caused it has committed.
+ */
+interface AvailableBalanceAdjustment {
+  userId: string;
+  amount: number;
+}
+
+/**
+ * AvailableBalanceService - Owns the Redis mirror of each user's available
+ * balance (Postgres balance minus wagers still in flight). The place/cancel
+ * bet Lua scripts seed, check and reserve against this mirror atomically, so
+ * concurrent bets can never spend the same cents twice.
+ */
+export class AvailableBalanceService {
+  private static instance: AvailableBalanceService;
+  private redis: RedisService;
+  private adjustScript: string;
+
+  readonly MIRROR_TTL_SECONDS = 86400; // 24 hours
+  private readonly PENDING_ADJUSTMENTS_KEY = "availableBalanceAdjustments";
+
+  private constructor() {
+    this.redis = RedisService.getInstance();
+    this.adjustScript = readFileSync(
+      join(__dirname, "../scripts/redis/adjust_available_balance.lua"),
+      "utf8"
+    );
+  }
+
+  public static getInstance(): AvailableBalanceService {
+    if (!AvailableBalanceService.instance) {
+      AvailableBalanceService.instance = new AvailableBalanceService();
+    }
+    return AvailableBalanceService.instance;
+  }
+
+  // ============================================
+  // Redis Key Management
+  // ============================================
+
+  /**
+   * Returns the Redis key holding a user's available balance in cents.
+   * @param {string} userId - The user ID
+   * @returns {string} The Redis key
+   */
+  getKey(userId: string): string {
+    return `balance:available:${userId}`;
+  }
+
+  // ============================================
+  // Mirror Updates
+  // ============================================
+
+  /**
+   * Adds a signed amount to a user's mirror if it exists. A missing mirror is
+   * left alone: the next bet seeds it from Postgres.
+   *
+   * @param {string} userId - The user ID
+   * @param {number} amount - Signed amount in cents
+   * @returns {Promise<void>}
+   */
+  async adjust(userId: string, amount: number): Promise<void> {
+    if (amount === 0) return;
+    const client = this.redis.getClient();
+    await client.eval(
+      this.adjustScript,
+      1,
+      this.getKey(userId),
+      amount.toString()
+    );
+    logger.debug(
+      `Adjusted available balance for user ${logger.cyan(userId)} by ${logger.cyan(amount)}`
+    );
+  }
+
+  /**
+   * Queues a mirror adjustment on the transaction's query runner so it is only
+   * applied if (and after) the transaction commits.
+   *
+   * @param {EntityManager} manager - The transaction's entity manager
+   * @param {string} userId - The user ID
+   * @param {number} amount - Signed amount in cents
+   */
+  queueAdjustment(manager: EntityManager, userId: string, amount: number): void {
+    const queryRunner = manager.queryRunner;
+    if (!queryRunner || !queryRunner.isTransactionActive) {
+      // Not inside a transaction: the change is already committed
+      this.adjust(userId, amount).catch((error) =>
+        logger.error(`Failed to adjust available balance for user ${logger.cyan(userId)}:`, error)
+      );
+      return;
+    }
+    const pending: AvailableBalanceAdjustment[] =
+      queryRunner.data[this.PENDING_ADJUSTMENTS_KEY] ?? [];
+    pending.push({ userId, amount });
+    queryRunner.data[this.PENDING_ADJUSTMENTS_KEY] = pending;
+  }
+
+  /**
+   * Applies every adjustment queued on a committed transaction.
+   * @param {QueryRunner} queryRunner - The query runner that committed
+   * @returns {Promise<void>}
+   */
+  async flushQueued(queryRunner: QueryRunner): Promise<void> {
+    const pending: AvailableBalanceAdjustment[] =
+      queryRunner.data[this.PENDING_ADJUSTMENTS_KEY] ?? [];
+    delete queryRunner.data[this.PENDING_ADJUSTMENTS_KEY];
+    for (const { userId, amount } of pending) {
+      await this.adjust(userId, amount);
+    }
+  }
+
+  /**
+   * Drops the adjustments queued on a rolled-back transaction.
+   * @param {QueryRunner} queryRunner - The query runner that rolled back
+   */
+  discardQueued(queryRunner: QueryRunner): void {
+    delete queryRunner.data[this.PENDING_ADJUSTMENTS_KEY];
+  }
+}
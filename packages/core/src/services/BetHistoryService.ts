@@ -0,0 +1,217 @@
+import { AppDataSource } from "../data-source";
+import { Bet } from "../entities/Bet";
+import { LedgerEntry } from "../entities/LedgerEntry";
+import { BetHistoryFilterInputDto } from "../dtos/BetHistoryFilterInputDto";
+import {
+  BetHistoryConnectionDto,
+  BetHistoryEntryDto,
+} from "../dtos/BetHistoryConnectionDto";
+import { BetResult } from "../types/BetResult";
+import { FighterColor } from "../types/FighterColor";
+import { LedgerEntryType } from "../types/LedgerEntryType";
+import { MatchStatus } from "../types/MatchStatus";
+import { decodeCursor, encodeCursor } from "../utils/Cursor";
+import { logger } from "../utils/logger";
+
+/**
+ * BetHistoryService - Pages through a user's finalized bets with their
+ * outcome: result, what was paid back and the odds when the match resolved.
+ */
+export class BetHistoryService {
+  private static instance: BetHistoryService;
+  private betRepository = AppDataSource.getRepository(Bet);
+  private ledgerRepository = AppDataSource.getRepository(LedgerEntry);
+
+  private readonly MAX_PAGE_SIZE = 100;
+
+  public static getInstance(): BetHistoryService {
+    if (!BetHistoryService.instance) {
+      BetHistoryService.instance = new BetHistoryService();
+    }
+    return BetHistoryService.instance;
+  }
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  /**
+   * Fetches a page of a user's bets, newest first.
+   *
+   * @param {string} userId - The user whose bets to fetch
+   * @param {BetHistoryFilterInputDto} filter - Which bets to include
+   * @param {number} first - Page size (capped at 100)
+   * @param {string} [after] - Cursor of the last bet on the previous page
+   * @returns {Promise<BetHistoryConnectionDto>} The page of bets
+   * @throws {Error} If the cursor is invalid
+   */
+  async getUserBets(
+    userId: string,
+    filter: BetHistoryFilterInputDto,
+    first: number,
+    after?: string
+  ): Promise<BetHistoryConnectionDto> {
+    const pageSize = Math.min(Math.max(first, 1), this.MAX_PAGE_SIZE);
+    logger.debug(
+      `Fetching bets for user ${logger.cyan(userId)}: first=${logger.cyan(pageSize)}, after=${logger.cyan(after ?? "start")}`
+    );
+
+    const query = this.betRepository
+      .createQueryBuilder("bet")
+      .innerJoinAndSelect("bet.match", "match")
+      .where('"bet"."userId" = :userId', { userId });
+    if (filter.fighterColor) {
+      query.andWhere("bet.fighterColor = :fighterColor", { fighterColor: filter.fighterColor });
+    }
+    if (filter.matchStatus) {
+      query.andWhere("match.status = :matchStatus", { matchStatus: filter.matchStatus });
+    }
+    if (filter.createdAfter) {
+      query.andWhere("bet.createdAt >= :createdAfter", { createdAfter: filter.createdAfter });
+    }
+    if (filter.createdBefore) {
+      query.andWhere("bet.createdAt < :createdBefore", { createdBefore: filter.createdBefore });
+    }
+
+    const totalCount = await query.getCount();
+
+    // Cursors carry milliseconds only; see MatchService.getMatches
+    const createdAtMs = `date_trunc('milliseconds', "bet"."createdAt")`;
+    if (after) {
+      const position = decodeCursor(after);
+      query.andWhere(`(${createdAtMs}, "bet"."id") < (:afterCreatedAt, :afterId)`, {
+        afterCreatedAt: position.createdAt,
+        afterId: position.id,
+      });
+    }
+    const bets = await query
+      .orderBy(createdAtMs, "DESC")
+      .addOrderBy("bet.id", "DESC")
+      .limit(pageSize + 1)
+      .getMany();
+
+    const page = bets.slice(0, pageSize);
+    const entries = await this.toEntries(page);
+    const edges = page.map((bet, index) => ({
+      cursor: encodeCursor(bet.createdAt, bet.id),
+      node: entries[index],
+    }));
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage: bets.length > pageSize,
+        endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+      },
+      totalCount,
+    };
+  }
+
+  // ============================================
+  // Outcomes
+  // ============================================
+
+  /**
+   * Works out the outcome of each bet. Settled bets carry their result and
+   * payout; bets settled before those were stored fall back to the ledger.
+   * Pools for the odds come from one query over every match on the page.
+   *
+   * @param {Bet[]} bets - Bets loaded with their match
+   * @returns {Promise<BetHistoryEntryDto[]>} One entry per bet, in the same order
+   */
+  private async toEntries(bets: Bet[]): Promise<BetHistoryEntryDto[]> {
+    if (bets.length === 0) return [];
+    const unrecorded = bets.filter((bet) => !bet.settledAt).map((bet) => bet.id);
+    const payouts =
+      unrecorded.length > 0 ? await this.getPayoutsReceived(unrecorded) : new Map<string, number>();
+    const pools = await this.getPools([...new Set(bets.map((bet) => bet.match.id))]);
+
+    return bets.map((bet) => {
+      const pool = pools.get(bet.match.id) ?? { [FighterColor.RED]: 0, [FighterColor.BLUE]: 0 };
+      const sidePool = pool[bet.fighterColor];
+      const totalPool = pool[FighterColor.RED] + pool[FighterColor.BLUE];
+      const resolved = bet.match.status === MatchStatus.RESOLVED;
+      return {
+        id: bet.id,
+        match: bet.match,
+        side: bet.fighterColor,
+        amount: bet.amount,
+        result: bet.result ?? this.getResult(bet, pool),
+        payoutReceived: bet.payout ?? payouts.get(bet.id) ?? 0,
+        oddsAtResolution:
+          resolved && sidePool > 0 ? Math.round((totalPool / sidePool) * 100) / 100 : null,
+        placedAt: bet.createdAt,
+      };
+    });
+  }
+
+  /**
+   * Determines how a bet turned out from its match, for bets without a
+   * stored result.
+   *
+   * @param {Bet} bet - The bet, loaded with its match
+   * @param {Record<FighterColor, number>} pool - Cents staked on each side of the match
+   * @returns {BetResult | null} The result, or null while the match is unsettled
+   */
+  private getResult(bet: Bet, pool: Record<FighterColor, number>): BetResult | null {
+    const { status, winner } = bet.match;
+    if (status === MatchStatus.VOIDED) return BetResult.REFUNDED;
+    if (status !== MatchStatus.RESOLVED || !winner) return null;
+    // Everyone is refunded when nobody backed the winner
+    if (pool[winner] === 0) return BetResult.REFUNDED;
+    return bet.fighterColor === winner ? BetResult.WON : BetResult.LOST;
+  }
+
+  /**
+   * Sums what each bet has been paid back: payouts and refunds, less any
+   * reversed after a winner correction.
+   *
+   * @param {string[]} betIds - The bets
+   * @returns {Promise<Map<string, number>>} Cents received per bet ID
+   */
+  private async getPayoutsReceived(betIds: string[]): Promise<Map<string, number>> {
+    const rows: { betId: string; total: string }[] = await this.ledgerRepository
+      .createQueryBuilder("entry")
+      .select('"entry"."betId"', "betId")
+      .addSelect('COALESCE(SUM("entry"."amount"), 0)', "total")
+      .where('"entry"."betId" IN (:...betIds)', { betIds })
+      .andWhere('"entry"."type" IN (:...types)', {
+        types: [
+          LedgerEntryType.PAYOUT_CREDIT,
+          LedgerEntryType.REFUND,
+          LedgerEntryType.PAYOUT_REVERSAL,
+        ],
+      })
+      .groupBy('"entry"."betId"')
+      .getRawMany();
+    return new Map(rows.map((row) => [row.betId, parseInt(row.total)]));
+  }
+
+  /**
+   * Sums the cents staked on each side of each match.
+   *
+   * @param {string[]} matchIds - The matches
+   * @returns {Promise<Map<string, Record<FighterColor, number>>>} Pools per match ID
+   */
+  private async getPools(
+    matchIds: string[]
+  ): Promise<Map<string, Record<FighterColor, number>>> {
+    const rows: { matchId: string; fighterColor: FighterColor; total: string }[] =
+      await this.betRepository
+        .createQueryBuilder("bet")
+        .select('"bet"."matchId"', "matchId")
+        .addSelect('"bet"."fighterColor"', "fighterColor")
+        .addSelect('COALESCE(SUM("bet"."amount"), 0)', "total")
+        .where('"bet"."matchId" IN (:...matchIds)', { matchIds })
+        .groupBy('"bet"."matchId"')
+        .addGroupBy('"bet"."fighterColor"')
+        .getRawMany();
+
+    const pools = new Map<string, Record<FighterColor, number>>();
+    for (const row of rows) {
+      const pool = pools.get(row.matchId) ?? { [FighterColor.RED]: 0, [FighterColor.BLUE]: 0 };
+      pool[row.fighterColor] = parseInt(row.total);
+      pools.set(row.matchId, pool);
+    }
+    return pools;
+  }
+}
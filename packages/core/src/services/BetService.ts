@@ -10,9 +10,29 @@ import { AppDataSource } from "../data-source";
 import { Bet } from "../entities/Bet";
 import { Match } from "../entities/Match";
 import { MatchTotalsDto } from "../dtos/MatchTotalsDto";
+import { MatchOddsDto, MyWagerDto } from "../dtos/MatchOddsDto";
+import { ActiveBetDto } from "../dtos/ActiveBetDto";
 import { readFileSync } from "fs";
 import { join } from "path";
+import { EntityManager, In } from "typeorm";
 import { logger } from "../utils/logger";
+import { LedgerService } from "./LedgerService";
+import { LedgerEntryType } from "../types/LedgerEntryType";
+import { MatchStatus } from "../types/MatchStatus";
+import { MatchLifecycleService } from "./MatchLifecycleService";
+import { AvailableBalanceService } from "./AvailableBalanceService";
+import { PubSubService } from "./PubSubService";
+import { LockService } from "./LockService";
+import { SubscriptionKeys } from "../types/Context";
+
+/**
+ * A live bet as stored in Redis before finalization
+ */
+interface ActiveBet {
+  userId: string;
+  amount: number;
+  color: FighterColor;
+}
 
 export class BetService {
   // Singleton instance
@@ -22,21 +42,34 @@ export class BetService {
   private redis: RedisService;
   private betRepository = AppDataSource.getRepository(Bet);
   private matchRepository = AppDataSource.getRepository(Match);
+  private ledgerService = LedgerService.getInstance();
+  private matchLifecycleService = MatchLifecycleService.getInstance();
+  private availableBalanceService = AvailableBalanceService.getInstance();
+  private pubSubService = PubSubService.getInstance();
+  private lockService = LockService.getInstance();
 
   // Lua scripts for atomic Redis operations
   private placeBetScript: string;
   private cancelBetScript: string;
+  private claimFinalizationsScript: string;
 
-  // Cache and update management
-  private lastUpdateTime: number = 0;
+  // Totals broadcast throttling. The window and the last broadcast totals
+  // live in Redis so the throttle holds across every server.
   private updateTimeout: NodeJS.Timeout | null = null;
-  private pendingUpdate: boolean = false;
-  private lastTotals: MatchTotalsDto | null = null;
   private readonly UPDATE_THROTTLE_MS = 100; // Throttle updates to every 100ms
 
   // Match finalization
-  private finalizationTimeouts: Map<string, NodeJS.Timeout> = new Map();
-  private readonly FINALIZATION_DELAY_MS = 35000; // 45 seconds
+  private finalizationWorker: NodeJS.Timeout | null = null;
+  private readonly FINALIZATION_DELAY_MS = 35000; // 35 seconds
+  private readonly FINALIZATION_POLL_MS = 1000; // 1 second
+  private readonly FINALIZATION_LEASE_MS = 30000; // 30 seconds
+  private readonly FINALIZATION_BATCH_SIZE = 10;
+  private readonly LOCK_FLAG_TTL_SECONDS = 86400; // 24 hours
+
+  // Idempotency keys outlive the match they were used in, so a retry that
+  // arrives after the match has moved on is not applied to the next one
+  private readonly IDEMPOTENCY_TTL_SECONDS = 86400; // 24 hours
+  private readonly MAX_IDEMPOTENCY_KEY_LENGTH = 128;
 
   // Private constructor for singleton pattern
   private constructor() {
@@ -51,6 +84,10 @@ export class BetService {
       join(__dirname, "../scripts/redis/cancel_bet.lua"),
       "utf8"
     );
+    this.claimFinalizationsScript = readFileSync(
+      join(__dirname, "../scripts/redis/claim_finalizations.lua"),
+      "utf8"
+    );
   }
 
   /**
@@ -64,97 +101,186 @@ export class BetService {
   }
 
   // ============= Redis Key Management =============
-  private getUserBetKey(userId: string): string {
-    return `bet:active:user:${userId}`;
+  // All active-bet state is namespaced by match id so a wager can never
+  // bleed into a different match than the one it was placed against.
+  private getUserBetKey(matchId: string, userId: string): string {
+    return `bet:active:${matchId}:user:${userId}`;
+  }
+
+  private getMatchTotalKey(matchId: string, color: FighterColor): string {
+    return `bet:active:${matchId}:total:${color}`;
+  }
+
+  /**
+   * Set of user ids with an active bet on the match. Maintained by the
+   * place/cancel Lua scripts so finalization never has to scan the keyspace.
+   */
+  private getBettorsKey(matchId: string): string {
+    return `bet:active:${matchId}:bettors`;
+  }
+
+  /**
+   * Flag set when a match's bets are finalized. The Lua scripts check it so
+   * no wager can slip in while (or after) finalization runs.
+   */
+  private getLockKey(matchId: string): string {
+    return `bet:locked:${matchId}`;
+  }
+
+  /**
+   * Records that a user's request with a client-generated idempotency key was
+   * applied. Holds the id of the match it was applied to.
+   */
+  private getIdempotencyKey(
+    userId: string,
+    operation: "place" | "cancel",
+    idempotencyKey: string
+  ): string {
+    return `bet:idempotency:${userId}:${operation}:${idempotencyKey}`;
+  }
+
+  /**
+   * Set of match ids that currently have active-bet state in Redis.
+   * Used to detect and clean up keys left behind by stale matches.
+   */
+  private getActiveMatchesKey(): string {
+    return "bet:active:matches";
+  }
+
+  /**
+   * Exists while a totals broadcast window is open. Whoever creates it (on
+   * any server) broadcasts; everyone else waits for it to expire.
+   */
+  private getTotalsThrottleKey(): string {
+    return "bet:totals:throttle";
+  }
+
+  /**
+   * The last totals broadcast, as JSON, so unchanged totals are not re-sent.
+   */
+  private getLastTotalsKey(): string {
+    return "bet:totals:last";
+  }
+
+  /**
+   * Sorted set of match ids awaiting automatic finalization, scored by the
+   * deadline (epoch ms). Lives in Redis so a restart cannot lose a deadline.
+   */
+  private getFinalizationScheduleKey(): string {
+    return "bet:finalization:schedule";
   }
 
-  private getMatchTotalKey(color: FighterColor): string {
-    return `bet:active:total:${color}`;
+  // ============= Match Lookup =============
+  /**
+   * Fetches the most recently created match, which is the one accepting bets
+   * @returns Promise<Match | null> - The current match or null if none exist
+   */
+  private async getCurrentMatch(): Promise<Match | null> {
+    return this.matchRepository.findOne({ where: {}, order: { createdAt: "DESC" } });
   }
 
   // ============= Bet Operations =============
   /**
    * Places a bet for a user on a specific fighter color
    * @param user - The user placing the bet
-   * @param amount - The amount to bet
+   * @param amount - The amount to bet in cents
    * @param fighterColor - The fighter color to bet on
-   * @returns Promise<boolean> - True if bet was placed successfully
+   * @param idempotencyKey - Optional client-generated key; a retry with the same key is not applied again
+   * @returns Promise<boolean> - True if bet was placed successfully (or already had been)
    * @throws Error if bet amount is invalid, user has insufficient balance, no match is active, or bets are finalized
    */
   async placeBet(
     user: User,
     amount: number,
-    fighterColor: FighterColor
+    fighterColor: FighterColor,
+    idempotencyKey?: string
   ): Promise<boolean> {
     logger.debug(
       `Attempting to place bet for user ${logger.cyan(user.id)}: amount=${logger.cyan(amount)}, color=${logger.cyan(fighterColor)}`
     );
+    if (await this.isReplay(user.id, "place", idempotencyKey)) {
+      return true;
+    }
 
     // ============================================
     // Match Status Validation
     // ============================================
     /**
      * Fetch the current match and ensure betting is allowed.
-     * Throws if there is no current match or if bets are finalized (winner is set).
+     * Throws if there is no current match or if it is no longer OPEN.
      */
-    const currentMatch = await this.matchRepository.findOne({ where: {}, order: { createdAt: "DESC" } });
+    const currentMatch = await this.getCurrentMatch();
     if (!currentMatch) {
       logger.warn(`No current match found. Cannot place bet for user ${logger.cyan(user.id)}`);
       throw new Error("No current match available for betting");
     }
-    if (currentMatch.winner !== null && currentMatch.winner !== undefined) {
-      logger.warn(`Bets are finalized for match ${logger.cyan(currentMatch.id)}. Cannot place bet for user ${logger.cyan(user.id)}`);
+    if (!currentMatch.bettable) {
+      logger.warn(`Match ${logger.cyan(currentMatch.id)} is a ${logger.cyan(currentMatch.matchFormat)} match that is not bettable. Cannot place bet for user ${logger.cyan(user.id)}`);
+      throw new Error("Betting is not open for this match");
+    }
+    if (currentMatch.status !== MatchStatus.OPEN) {
+      logger.warn(`Match ${logger.cyan(currentMatch.id)} is ${logger.cyan(currentMatch.status)}. Cannot place bet for user ${logger.cyan(user.id)}`);
       throw new Error("Bets are finalized for the current match");
     }
 
     // ============================================
     // Bet Amount and Balance Validation
     // ============================================
-    // Validate bet amount (must be in increments of 5 or 25 cents)
+    // Validate bet amount (must be a whole number of cents in increments of 5)
     if (!this.isValidBetAmount(amount)) {
       logger.warn(
-        `Invalid bet amount ${logger.red(amount)} for user ${logger.cyan(user.id)}. Must be in increments of 5 or 25 cents.`
+        `Invalid bet amount ${logger.red(amount)} for user ${logger.cyan(user.id)}. Must be in increments of 5 cents.`
       );
       throw new Error(
-        "Invalid bet amount. Must be in increments of 5 or 25 cents."
+        "Invalid bet amount. Must be in increments of 5 cents."
       );
     }
 
-    // Check available balance: DB balance - in-progress bets >= amount
+    // The available balance is checked and reserved inside the Lua script,
+    // against a Redis mirror seeded from the user's DB balance
     const client = this.redis.getClient();
-    const betKey = this.getUserBetKey(user.id);
-    const totalKey = this.getMatchTotalKey(fighterColor);
-
-    // Fetch user's DB balance
-    const dbBalance = user.balance;
-    // Fetch in-progress bet from Redis
-    const betData = await client.hgetall(betKey);
-    const inProgressBet = betData && betData.amount ? parseFloat(betData.amount) : 0;
-    const available = dbBalance - inProgressBet;
-    if (available < amount) {
-      logger.warn(
-        `User ${logger.cyan(user.id)} has insufficient available balance. DB balance: ${logger.cyan(dbBalance)}, in-progress: ${logger.cyan(inProgressBet)}, requested: ${logger.cyan(amount)}`
-      );
-      throw new Error("Insufficient available balance");
-    }
+    const betKey = this.getUserBetKey(currentMatch.id, user.id);
+    const totalKey = this.getMatchTotalKey(currentMatch.id, fighterColor);
 
     try {
-      const result = await client.evalsha(
-        (await client.script("LOAD", this.placeBetScript)) as string,
-        2, // number of keys
+      const reserve = (seedBalance: string) => client.eval(
+        this.placeBetScript,
+        7, // number of keys
         betKey,
         totalKey,
+        this.getActiveMatchesKey(),
+        this.getBettorsKey(currentMatch.id),
+        this.getLockKey(currentMatch.id),
+        this.availableBalanceService.getKey(user.id),
+        idempotencyKey ? this.getIdempotencyKey(user.id, "place", idempotencyKey) : "",
         amount.toString(),
-        fighterColor
+        fighterColor,
+        currentMatch.id,
+        user.id,
+        seedBalance,
+        this.availableBalanceService.MIRROR_TTL_SECONDS.toString(),
+        this.IDEMPOTENCY_TTL_SECONDS.toString()
       );
 
+      let result = await reserve("");
+      // No mirror yet: seed it from the balance as it is now rather than as
+      // it was when the request was authenticated
+      if (result[0] === "err" && result[1] === "NEEDS_SEED") {
+        result = await reserve((await this.getCurrentBalance(user.id)).toString());
+      }
+
       if (result[0] === "err") {
         switch (result[1]) {
+          case "BETS_LOCKED":
+            logger.warn(
+              `Bets are locked for match ${logger.cyan(currentMatch.id)}. Rejected bet for user ${logger.cyan(user.id)}.`
+            );
+            throw new Error("Bets are finalized for the current match");
           case "INSUFFICIENT_BALANCE":
             logger.warn(
-              `User ${logger.cyan(user.id)} has insufficient balance to place bet of ${logger.cyan(amount)}.`
+              `User ${logger.cyan(user.id)} has insufficient available balance to place bet of ${logger.cyan(amount)}.`
             );
-            throw new Error("Insufficient balance");
+            throw new Error("Insufficient available balance");
           default:
             logger.error(
               `Unknown error placing bet for user ${logger.cyan(user.id)}: ${logger.red(result[1])}`
@@ -163,8 +289,16 @@ export class BetService {
         }
       }
 
+      // A concurrent retry with the same key got there first
+      if (result[1] === "REPLAY") {
+        logger.info(
+          `Bet for user ${logger.cyan(user.id)} was already placed with idempotency key ${logger.cyan(idempotencyKey)}`
+        );
+        return true;
+      }
+
       logger.success(
-        `Bet placed successfully for user ${logger.cyan(user.id)}: amount=${logger.cyan(amount)}, color=${logger.cyan(fighterColor)}`
+        `Bet placed successfully for user ${logger.cyan(user.id)}: amount=${logger.cyan(amount)}, color=${logger.cyan(fighterColor)}, match=${logger.cyan(currentMatch.id)}`
       );
       return true;
     } catch (error) {
@@ -176,39 +310,71 @@ export class BetService {
   }
 
   /**
-   * Cancels a user's existing bet
+   * Cancels (part of) a user's existing bet on the current match
    * @param user - The user canceling the bet
-   * @param amount - The amount to cancel
-   * @returns Promise<boolean> - True if bet was canceled successfully
-   * @throws Error if no bet exists or cancel amount is invalid
+   * @param amount - The amount to cancel in cents
+   * @param idempotencyKey - Optional client-generated key; a retry with the same key is not applied again
+   * @returns Promise<boolean> - True if bet was canceled successfully (or already had been)
+   * @throws Error if no match is active, no bet exists or cancel amount is invalid
    */
-  async cancelBet(user: User, amount: number): Promise<boolean> {
+  async cancelBet(
+    user: User,
+    amount: number,
+    idempotencyKey?: string
+  ): Promise<boolean> {
     logger.debug(
       `Attempting to cancel bet for user ${logger.cyan(user.id)}: amount=${logger.cyan(amount)}`
     );
+    if (await this.isReplay(user.id, "cancel", idempotencyKey)) {
+      return true;
+    }
     // Validate cancel amount
     if (!this.isValidBetAmount(amount)) {
       logger.warn(
-        `Invalid cancel amount ${logger.red(amount)} for user ${logger.cyan(user.id)}. Must be in increments of 5 or 25 cents.`
+        `Invalid cancel amount ${logger.red(amount)} for user ${logger.cyan(user.id)}. Must be in increments of 5 cents.`
       );
       throw new Error(
-        "Invalid cancel amount. Must be in increments of 5 or 25 cents."
+        "Invalid cancel amount. Must be in increments of 5 cents."
       );
     }
 
+    const currentMatch = await this.getCurrentMatch();
+    if (!currentMatch) {
+      logger.warn(`No current match found. Cannot cancel bet for user ${logger.cyan(user.id)}`);
+      throw new Error("No current match available for betting");
+    }
+    if (currentMatch.status !== MatchStatus.OPEN) {
+      logger.warn(`Match ${logger.cyan(currentMatch.id)} is ${logger.cyan(currentMatch.status)}. Cannot cancel bet for user ${logger.cyan(user.id)}`);
+      throw new Error("Bets are finalized for the current match");
+    }
+
     const client = this.redis.getClient();
-    const betKey = this.getUserBetKey(user.id);
+    const betKey = this.getUserBetKey(currentMatch.id, user.id);
 
     try {
-      const result = await client.evalsha(
-        (await client.script("LOAD", this.cancelBetScript)) as string,
-        1, // number of keys
+      const result = await client.eval(
+        this.cancelBetScript,
+        7, // number of keys
         betKey,
-        amount.toString()
+        this.getMatchTotalKey(currentMatch.id, FighterColor.BLUE),
+        this.getMatchTotalKey(currentMatch.id, FighterColor.RED),
+        this.getBettorsKey(currentMatch.id),
+        this.getLockKey(currentMatch.id),
+        this.availableBalanceService.getKey(user.id),
+        idempotencyKey ? this.getIdempotencyKey(user.id, "cancel", idempotencyKey) : "",
+        amount.toString(),
+        user.id,
+        currentMatch.id,
+        this.IDEMPOTENCY_TTL_SECONDS.toString()
       );
 
       if (result[0] === "err") {
         switch (result[1]) {
+          case "BETS_LOCKED":
+            logger.warn(
+              `Bets are locked for match ${logger.cyan(currentMatch.id)}. Rejected cancel for user ${logger.cyan(user.id)}.`
+            );
+            throw new Error("Bets are finalized for the current match");
           case "NO_BET":
             logger.warn(
               `No active bet found to cancel for user ${logger.cyan(user.id)}.`
@@ -227,6 +393,14 @@ export class BetService {
         }
       }
 
+      // A concurrent retry with the same key got there first
+      if (result[1] === "REPLAY") {
+        logger.info(
+          `Cancel for user ${logger.cyan(user.id)} was already applied with idempotency key ${logger.cyan(idempotencyKey)}`
+        );
+        return true;
+      }
+
       logger.success(
         `Bet canceled successfully for user ${logger.cyan(user.id)}: amount=${logger.cyan(amount)}`
       );
@@ -240,80 +414,252 @@ export class BetService {
   }
 
   /**
-   * Finalizes all active bets for a match and updates user balances
+   * Locks betting on a match (OPEN -> LOCKED), persists all active bets and
+   * debits user balances
    * @param matchId - The ID of the match being finalized
+   * @throws Error if the match does not exist, is not OPEN, or is already being finalized
    */
   async finalizeBets(matchId: string): Promise<void> {
+    await this.withFinalizationLock(matchId, () => this.persistAndLockBets(matchId));
+  }
+
+  /**
+   * Runs a task while holding a match's finalize lock. Serializes manual
+   * finalization, the finalization worker, ending and voiding the match, so
+   * none of them can act on Redis bets another is halfway through persisting.
+   * @param matchId - The match
+   * @param task - The work to do while holding the lock
+   * @returns Promise<T> - What the task returned
+   * @throws Error if the match's bets are already being finalized
+   */
+  async withFinalizationLock<T>(matchId: string, task: () => Promise<T>): Promise<T> {
+    return this.lockService.withLock(
+      `finalize:${matchId}`,
+      "Bets for this match are already being finalized by another request",
+      task
+    );
+  }
+
+  /**
+   * Does the work of finalizeBets while holding the match's finalize lock
+   * @param matchId - The ID of the match being finalized
+   */
+  private async persistAndLockBets(matchId: string): Promise<void> {
     logger.info(
       `Finalizing bets for match ${logger.cyan(matchId)}`
     );
-    await AppDataSource.transaction(async (manager) => {
-      // Get all active bets from Redis
-      const keys = await this.redis.getClient().keys(this.getUserBetKey("*"));
-      logger.debug(
-        `Found ${logger.cyan(keys.length)} active bet keys in Redis for match ${logger.cyan(matchId)}`
-      );
-      const bets = await Promise.all(
-        keys.map(async (key) => {
-          const userId = key.split(":")[3]; // Extract userId from key
-          const betData = await this.redis.getClient().hgetall(key);
-          return {
-            userId,
-            amount: parseFloat(betData.amount),
-            color: betData.color as FighterColor,
-          };
-        })
-      );
-      logger.debug(
-        `Processing ${logger.cyan(bets.length)} bets for match ${logger.cyan(matchId)}`
-      );
-      // Create bet records in database and update final balances
-      for (const bet of bets) {
-        const user = await manager.findOne(User, { where: { id: bet.userId } });
-        if (!user) {
-          logger.warn(
-            `User ${logger.cyan(bet.userId)} not found in database during finalization for match ${logger.cyan(matchId)}`
-          );
-          continue;
-        }
-        // Calculate final balance by subtracting the bet amount from current balance
-        user.balance = user.balance - bet.amount;
-        await manager.save(user);
-        logger.info(
-          `Updated balance for user ${logger.cyan(user.id)}: new balance=${logger.cyan(user.balance)}`
-        );
-        // Create bet record
-        const betRecord = new Bet();
-        betRecord.amount = bet.amount;
-        betRecord.fighterColor = bet.color;
-        betRecord.user = user;
-        betRecord.match = manager.create(Match, { id: matchId });
-        await manager.save(betRecord);
-        logger.success(
-          `Saved bet record for user ${logger.cyan(user.id)}: amount=${logger.cyan(bet.amount)}, color=${logger.cyan(bet.color)}, match=${logger.cyan(matchId)}`
+    // Flag the match as locked first so the Lua scripts reject new wagers
+    await this.lockBetting(matchId);
+
+    let bets: ActiveBet[] = [];
+    let lockedMatch: Match;
+    try {
+      lockedMatch = await AppDataSource.transaction(async (manager) => {
+        const match = await this.matchLifecycleService.transition(
+          manager,
+          matchId,
+          MatchStatus.LOCKED
         );
-      }
-      // Clear Redis data
-      const redisDeletions = [];
-      if (keys.length > 0) {
-        logger.debug(
-          `Deleting ${logger.cyan(keys.length)} bet keys from Redis for match ${logger.cyan(matchId)}`
+        bets = await this.persistActiveBets(manager, matchId);
+        return match;
+      });
+    } catch (error) {
+      await this.unlockBettingIfOpen(matchId);
+      throw error;
+    }
+
+    // Clear Redis data
+    logger.debug(
+      `Clearing active bet keys for match ${logger.cyan(matchId)}`
+    );
+    await this.clearActiveBets(matchId, bets.map((bet) => bet.userId));
+    logger.success(
+      `Finalized bets and cleared Redis for match ${logger.cyan(matchId)}`
+    );
+    this.pubSubService.publish(SubscriptionKeys.BetsLocked, lockedMatch);
+  }
+
+  /**
+   * Writes each active Redis bet for a match to Postgres and debits the bettor
+   * @param manager - The transaction's entity manager
+   * @param matchId - The match being finalized
+   * @returns Promise<ActiveBet[]> - The bets that were read from Redis
+   */
+  private async persistActiveBets(
+    manager: EntityManager,
+    matchId: string
+  ): Promise<ActiveBet[]> {
+    // Get all active bets from Redis
+    const bets = await this.readActiveBets(matchId);
+    logger.debug(
+      `Processing ${logger.cyan(bets.length)} bets for match ${logger.cyan(matchId)}`
+    );
+    const users = await this.ledgerService.lockUsers(
+      manager,
+      bets.map((bet) => bet.userId)
+    );
+    // Create bet records in database and update final balances
+    for (const bet of bets) {
+      const user = users.get(bet.userId);
+      if (!user) {
+        logger.warn(
+          `User ${logger.cyan(bet.userId)} not found in database during finalization for match ${logger.cyan(matchId)}`
         );
-        redisDeletions.push(this.redis.getClient().del(...keys));
+        continue;
       }
-      // Always clear the match total keys
+      // Create bet record
+      const betRecord = new Bet();
+      betRecord.amount = bet.amount;
+      betRecord.fighterColor = bet.color;
+      betRecord.user = user;
+      betRecord.match = manager.create(Match, { id: matchId });
+      await manager.save(betRecord);
+      logger.success(
+        `Saved bet record for user ${logger.cyan(user.id)}: amount=${logger.cyan(bet.amount)}, color=${logger.cyan(bet.color)}, match=${logger.cyan(matchId)}`
+      );
+      // Debit the bet amount from the user's balance
+      await this.ledgerService.record(
+        manager,
+        user,
+        -bet.amount,
+        LedgerEntryType.BET_DEBIT,
+        { matchId, bet: betRecord }
+      );
+      logger.info(
+        `Updated balance for user ${logger.cyan(user.id)}: new balance=${logger.cyan(user.balance)}`
+      );
+    }
+    return bets;
+  }
+
+  /**
+   * Sets the Redis lock flag for a match so the Lua scripts reject any new
+   * wager or cancellation
+   * @param matchId - The match to lock
+   */
+  async lockBetting(matchId: string): Promise<void> {
+    await this.redis
+      .getClient()
+      .set(this.getLockKey(matchId), "1", "EX", this.LOCK_FLAG_TTL_SECONDS);
+  }
+
+  /**
+   * Clears the Redis lock flag if the match is still OPEN in Postgres. Used to
+   * roll back `lockBetting` when the transition that followed it failed.
+   * @param matchId - The match to unlock
+   */
+  async unlockBettingIfOpen(matchId: string): Promise<void> {
+    const match = await this.matchRepository.findOne({ where: { id: matchId } });
+    if (match?.status === MatchStatus.OPEN) {
+      logger.warn(`Re-opening betting in Redis for match ${logger.cyan(matchId)}`);
+      await this.redis.getClient().del(this.getLockKey(matchId));
+    }
+  }
+
+  /**
+   * Drops every in-flight (not yet finalized) wager on a match. In-flight
+   * wagers have not been debited yet, so discarding them returns the money.
+   * @param matchId - The match whose wagers are discarded
+   * @returns Promise<number> - The number of wagers discarded
+   */
+  async discardActiveBets(matchId: string): Promise<number> {
+    const bets = await this.readActiveBets(matchId);
+    for (const bet of bets) {
       logger.debug(
-        `Clearing match total keys for match ${logger.cyan(matchId)}`
+        `Discarding in-flight bet for user ${logger.cyan(bet.userId)}: amount=${logger.cyan(bet.amount)}, match=${logger.cyan(matchId)}`
       );
-      redisDeletions.push(
-        this.redis.getClient().del(this.getMatchTotalKey(FighterColor.BLUE)),
-        this.redis.getClient().del(this.getMatchTotalKey(FighterColor.RED))
+    }
+    await this.clearActiveBets(matchId, bets.map((bet) => bet.userId));
+    await this.releaseReservations(bets);
+    return bets.length;
+  }
+
+  /**
+   * Removes active-bet state belonging to any match other than the given one.
+   * Bets only touch balances once finalized, so stale wagers (e.g. placed after
+   * finalization but before the next match was created) can simply be dropped.
+   * @param activeMatchId - The match whose state must be kept
+   * @returns Promise<number> - The number of stale matches cleaned up
+   */
+  async cleanupStaleBets(activeMatchId: string): Promise<number> {
+    const client = this.redis.getClient();
+    const matchIds = await client.smembers(this.getActiveMatchesKey());
+    const staleMatchIds = matchIds.filter((id) => id !== activeMatchId);
+
+    for (const staleMatchId of staleMatchIds) {
+      const userIds = await client.smembers(this.getBettorsKey(staleMatchId));
+      logger.warn(
+        `Cleaning up ${logger.cyan(userIds.length)} stale bets for match ${logger.cyan(staleMatchId)}`
       );
-      await Promise.all(redisDeletions);
-      logger.success(
-        `Finalized bets and cleared Redis for match ${logger.cyan(matchId)}`
+      const bets = await this.readActiveBets(staleMatchId);
+      await this.clearActiveBets(staleMatchId, userIds);
+      await this.releaseReservations(bets);
+    }
+
+    return staleMatchIds.length;
+  }
+
+  /**
+   * Reads every active bet for a match using the bettor index
+   * @param matchId - The match to read bets for
+   * @returns Promise<ActiveBet[]> - The active bets
+   */
+  private async readActiveBets(
+    matchId: string
+  ): Promise<ActiveBet[]> {
+    const client = this.redis.getClient();
+    const userIds = await client.smembers(this.getBettorsKey(matchId));
+    logger.debug(
+      `Found ${logger.cyan(userIds.length)} bettors in Redis for match ${logger.cyan(matchId)}`
+    );
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const pipeline = client.pipeline();
+    userIds.forEach((userId) =>
+      pipeline.hgetall(this.getUserBetKey(matchId, userId))
+    );
+    const results = (await pipeline.exec()) ?? [];
+
+    return userIds
+      .map((userId, index) => {
+        const betData = (results[index]?.[1] ?? {}) as Record<string, string>;
+        return {
+          userId,
+          amount: parseInt(betData.amount),
+          color: betData.color as FighterColor,
+        };
+      })
+      .filter((bet) => !isNaN(bet.amount) && bet.amount > 0);
+  }
+
+  /**
+   * Deletes all active-bet state for a match and unregisters it
+   * @param matchId - The match to clear
+   * @param userIds - The bettors whose bet keys should be removed
+   */
+  private async clearActiveBets(matchId: string, userIds: string[]): Promise<void> {
+    await this.redis
+      .getClient()
+      .del(
+        ...userIds.map((userId) => this.getUserBetKey(matchId, userId)),
+        this.getBettorsKey(matchId),
+        this.getMatchTotalKey(matchId, FighterColor.BLUE),
+        this.getMatchTotalKey(matchId, FighterColor.RED)
       );
-    });
+    await this.redis.getClient().srem(this.getActiveMatchesKey(), matchId);
+  }
+
+  /**
+   * Returns the cents reserved by dropped wagers to their bettors' available
+   * balance mirrors
+   * @param bets - The wagers that were dropped without being debited
+   */
+  private async releaseReservations(bets: ActiveBet[]): Promise<void> {
+    for (const bet of bets) {
+      await this.availableBalanceService.adjust(bet.userId, bet.amount);
+    }
   }
 
   // ============= Query Methods =============
@@ -357,33 +703,221 @@ export class BetService {
   }
 
   /**
-   * Gets the current total bets for both fighters
+   * Gets every live (not yet finalized) bet on the current match
+   * @returns Promise<ActiveBetDto[]> - The bettors and their wagers
+   */
+  async getActiveBettors(): Promise<ActiveBetDto[]> {
+    const currentMatch = await this.getCurrentMatch();
+    if (!currentMatch) {
+      return [];
+    }
+    logger.debug(`Fetching active bettors for match ${logger.cyan(currentMatch.id)}`);
+
+    const bets = await this.readActiveBets(currentMatch.id);
+    const users = await AppDataSource.getRepository(User).findBy({
+      id: In(bets.map((bet) => bet.userId)),
+    });
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    return bets
+      .filter((bet) => usersById.has(bet.userId))
+      .map((bet) => ({
+        user: usersById.get(bet.userId)!,
+        amount: bet.amount,
+        fighterColor: bet.color,
+      }));
+  }
+
+  /**
+   * Gets the current total bets for both fighters on the current match
    * @returns Promise<MatchTotalsDto> - The current betting totals
    */
   async getMatchTotals(): Promise<MatchTotalsDto> {
     logger.debug(`Fetching current match totals from Redis`);
+    const currentMatch = await this.getCurrentMatch();
+    if (!currentMatch) {
+      return { blue: 0, red: 0 };
+    }
     const [blueTotal, redTotal] = await Promise.all([
-      this.redis.getClient().get(this.getMatchTotalKey(FighterColor.BLUE)),
-      this.redis.getClient().get(this.getMatchTotalKey(FighterColor.RED)),
+      this.redis.getClient().get(this.getMatchTotalKey(currentMatch.id, FighterColor.BLUE)),
+      this.redis.getClient().get(this.getMatchTotalKey(currentMatch.id, FighterColor.RED)),
     ]);
 
     logger.info(
       `Current match totals: blue=${logger.cyan(blueTotal || 0)}, red=${logger.cyan(redTotal || 0)}`
     );
     return {
-      blue: parseFloat(blueTotal || "0"),
-      red: parseFloat(redTotal || "0"),
+      blue: parseInt(blueTotal || "0"),
+      red: parseInt(redTotal || "0"),
     };
   }
 
+  /**
+   * Gets the live pools, implied odds and bettor counts for the current match
+   * @param userId - Optional user whose wager and projected payouts to include
+   * @returns Promise<MatchOddsDto> - The current odds
+   */
+  async getMatchOdds(userId?: string): Promise<MatchOddsDto> {
+    const currentMatch = await this.getCurrentMatch();
+    const bets = currentMatch ? await this.readActiveBets(currentMatch.id) : [];
+    const pool = { [FighterColor.BLUE]: 0, [FighterColor.RED]: 0 };
+    const bettors = { [FighterColor.BLUE]: 0, [FighterColor.RED]: 0 };
+    for (const bet of bets) {
+      pool[bet.color] += bet.amount;
+      bettors[bet.color] += 1;
+    }
+
+    const odds: MatchOddsDto = {
+      matchId: currentMatch?.id ?? null,
+      blue: pool[FighterColor.BLUE],
+      red: pool[FighterColor.RED],
+      blueOdds: this.getImpliedOdds(pool, FighterColor.BLUE),
+      redOdds: this.getImpliedOdds(pool, FighterColor.RED),
+      blueBettors: bettors[FighterColor.BLUE],
+      redBettors: bettors[FighterColor.RED],
+      myWager: null,
+    };
+    return userId ? this.withWager(odds, userId) : odds;
+  }
+
+  /**
+   * Adds a user's wager and projected payouts to a snapshot of the odds
+   * @param odds - Odds without a wager, e.g. a published snapshot
+   * @param userId - The user whose wager to include
+   * @returns Promise<MatchOddsDto> - A copy of the odds with the user's wager, if any
+   */
+  async withWager(odds: MatchOddsDto, userId: string): Promise<MatchOddsDto> {
+    if (!odds.matchId) {
+      return { ...odds, myWager: null };
+    }
+    const betData = await this.redis
+      .getClient()
+      .hgetall(this.getUserBetKey(odds.matchId, userId));
+    const amount = parseInt(betData.amount);
+    if (isNaN(amount) || amount <= 0) {
+      return { ...odds, myWager: null };
+    }
+
+    const fighterColor = betData.color as FighterColor;
+    const myWager: MyWagerDto = {
+      fighterColor,
+      amount,
+      payoutIfBlueWins: this.projectPayout(odds, fighterColor, amount, FighterColor.BLUE),
+      payoutIfRedWins: this.projectPayout(odds, fighterColor, amount, FighterColor.RED),
+    };
+    return { ...odds, myWager };
+  }
+
   // ============= Helper Methods =============
   /**
-   * Validates if a bet amount is in the correct increments
-   * @param amount - The amount to validate
+   * Reads a user's balance straight from Postgres, to seed their available
+   * balance mirror with what it is at the moment of the bet
+   * @param userId - The user
+   * @returns Promise<number> - The balance in cents
+   * @throws Error if the user no longer exists
+   */
+  private async getCurrentBalance(userId: string): Promise<number> {
+    const user = await AppDataSource.getRepository(User).findOne({
+      where: { id: userId },
+      select: { id: true, balance: true },
+    });
+    if (!user) {
+      logger.error(`User ${logger.cyan(userId)} not found while seeding available balance`);
+      throw new Error("User not found");
+    }
+    return user.balance;
+  }
+
+  /**
+   * Checks whether a request with an idempotency key was already applied, so
+   * a retry returns the original success even if the match has since locked
+   * @param userId - The user making the request
+   * @param operation - Which mutation the key belongs to
+   * @param idempotencyKey - The client-generated key, if any
+   * @returns Promise<boolean> - True if the request was already applied
+   * @throws Error if the key is empty or too long
+   */
+  private async isReplay(
+    userId: string,
+    operation: "place" | "cancel",
+    idempotencyKey?: string
+  ): Promise<boolean> {
+    if (idempotencyKey === undefined) {
+      return false;
+    }
+    if (
+      idempotencyKey.length === 0 ||
+      idempotencyKey.length > this.MAX_IDEMPOTENCY_KEY_LENGTH
+    ) {
+      throw new Error(
+        `Invalid idempotency key. Must be 1 to ${this.MAX_IDEMPOTENCY_KEY_LENGTH} characters.`
+      );
+    }
+
+    const matchId = await this.redis
+      .getClient()
+      .get(this.getIdempotencyKey(userId, operation, idempotencyKey));
+    if (matchId) {
+      logger.info(
+        `Replaying ${logger.cyan(operation)} for user ${logger.cyan(userId)} with idempotency key ${logger.cyan(idempotencyKey)} (applied to match ${logger.cyan(matchId)})`
+      );
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Calculates pari-mutuel odds for a side: what each cent staked on it returns
+   * @param pool - Cents staked on each side
+   * @param color - The side
+   * @returns number | null - The odds rounded to 2 decimals, or null if nobody backed the side
+   */
+  private getImpliedOdds(
+    pool: Record<FighterColor, number>,
+    color: FighterColor
+  ): number | null {
+    if (pool[color] === 0) {
+      return null;
+    }
+    const total = pool[FighterColor.BLUE] + pool[FighterColor.RED];
+    return Math.round((total / pool[color]) * 100) / 100;
+  }
+
+  /**
+   * Projects what a wager would pay if the match were settled at the current
+   * pools, following PayoutService: winners get their stake plus a pro-rata
+   * share of the losing pool, and everyone is refunded when nobody backed the
+   * winner. Leftover cents from rounding are not included.
+   * @param odds - The current pools
+   * @param fighterColor - The side the wager backs
+   * @param amount - The wager in cents
+   * @param winner - The side assumed to win
+   * @returns number - The projected payout in cents, stake included
+   */
+  private projectPayout(
+    odds: MatchOddsDto,
+    fighterColor: FighterColor,
+    amount: number,
+    winner: FighterColor
+  ): number {
+    const winningPool = winner === FighterColor.BLUE ? odds.blue : odds.red;
+    const losingPool = winner === FighterColor.BLUE ? odds.red : odds.blue;
+    if (winningPool === 0) {
+      return amount;
+    }
+    if (fighterColor !== winner) {
+      return 0;
+    }
+    return amount + Math.floor((amount * losingPool) / winningPool);
+  }
+
+  /**
+   * Validates if a bet amount is a positive whole number of cents in increments of 5
+   * @param amount - The amount to validate in cents
    * @returns boolean - True if the amount is valid
    */
   private isValidBetAmount(amount: number): boolean {
-    const valid = amount > 0 && Math.abs(amount % 0.05) < 0.001;
+    const valid = Number.isInteger(amount) && amount > 0 && amount % 5 === 0;
     if (!valid) {
       logger.debug(
         `Bet amount validation failed: ${logger.red(amount)}`
@@ -393,22 +927,26 @@ export class BetService {
   }
 
   /**
-   * Determines if the match totals should be updated
-   * @returns Promise<boolean> - True if totals should be updated
+   * Determines if the match totals should be broadcast, recording them as the
+   * last broadcast totals
+   * @param currentTotals - The totals about to be broadcast
+   * @returns Promise<boolean> - True if they differ from the last broadcast
    */
-  private async shouldUpdateTotals(): Promise<boolean> {
-    const currentTotals = await this.getMatchTotals();
+  private async shouldUpdateTotals(currentTotals: MatchTotalsDto): Promise<boolean> {
+    const previous = await this.redis
+      .getClient()
+      .set(this.getLastTotalsKey(), JSON.stringify(currentTotals), "GET");
+    const lastTotals: MatchTotalsDto | null = previous ? JSON.parse(previous) : null;
 
     // If this is the first update or totals have changed
     if (
-      !this.lastTotals ||
-      currentTotals.blue !== this.lastTotals.blue ||
-      currentTotals.red !== this.lastTotals.red
+      !lastTotals ||
+      currentTotals.blue !== lastTotals.blue ||
+      currentTotals.red !== lastTotals.red
     ) {
       logger.debug(
-        `Match totals changed or first update. Previous: blue=${logger.cyan(this.lastTotals?.blue ?? 'N/A')}, red=${logger.cyan(this.lastTotals?.red ?? 'N/A')}. Current: blue=${logger.cyan(currentTotals.blue)}, red=${logger.cyan(currentTotals.red)}`
+        `Match totals changed or first update. Previous: blue=${logger.cyan(lastTotals?.blue ?? 'N/A')}, red=${logger.cyan(lastTotals?.red ?? 'N/A')}. Current: blue=${logger.cyan(currentTotals.blue)}, red=${logger.cyan(currentTotals.red)}`
       );
-      this.lastTotals = currentTotals;
       return true;
     }
     logger.debug(`Match totals unchanged. No update needed.`);
@@ -416,102 +954,176 @@ export class BetService {
   }
 
   /**
-   * Schedules an update of the match totals with throttling
+   * Claims the current totals broadcast window for this server
+   * @returns Promise<boolean> - True if no broadcast has gone out within the throttle window
+   */
+  private async claimTotalsWindow(): Promise<boolean> {
+    const claimed = await this.redis
+      .getClient()
+      .set(this.getTotalsThrottleKey(), "1", "PX", this.UPDATE_THROTTLE_MS, "NX");
+    return claimed === "OK";
+  }
+
+  /**
+   * Schedules an update of the match totals and odds with throttling. At most
+   * one broadcast goes out per window across all servers; a change made while
+   * a window is open is picked up by the first broadcast after it closes.
    * @param callback - Function to call when totals are updated
    */
   public async scheduleTotalsUpdate(
-    callback: (totals: MatchTotalsDto) => Promise<void>
+    callback: (totals: MatchTotalsDto, odds: MatchOddsDto) => Promise<void>
   ): Promise<void> {
-    const now = Date.now();
-    this.pendingUpdate = true;
-    logger.debug(
-      `Scheduling totals update. Now: ${logger.cyan(now)}, LastUpdate: ${logger.cyan(this.lastUpdateTime)}`
-    );
-
-    // If we're within the throttle window, schedule the update
-    if (now - this.lastUpdateTime < this.UPDATE_THROTTLE_MS) {
-      if (this.updateTimeout) {
-        clearTimeout(this.updateTimeout);
-      }
-      this.updateTimeout = setTimeout(async () => {
-        await this.processPendingUpdate(callback);
-      }, this.UPDATE_THROTTLE_MS);
+    // Outside the throttle window, process immediately
+    if (await this.claimTotalsWindow()) {
+      await this.processPendingUpdate(callback);
       return;
     }
 
-    // If we're outside the throttle window, process immediately
-    await this.processPendingUpdate(callback);
+    // Within the window, retry once it has expired. If another server claims
+    // the next window first, its broadcast already includes this change.
+    const remainingMs = await this.redis.getClient().pttl(this.getTotalsThrottleKey());
+    logger.debug(
+      `Totals broadcast window open. Retrying in ${logger.cyan(remainingMs)}ms`
+    );
+    if (this.updateTimeout) {
+      clearTimeout(this.updateTimeout);
+    }
+    this.updateTimeout = setTimeout(async () => {
+      this.updateTimeout = null;
+      try {
+        if (await this.claimTotalsWindow()) {
+          await this.processPendingUpdate(callback);
+        }
+      } catch (error) {
+        logger.error("Failed to process pending totals update:", error);
+      }
+    }, Math.max(remainingMs, 1));
   }
 
   /**
    * Processes a pending totals update
-   * @param callback - Function to call with the updated totals
+   * @param callback - Function to call with the updated totals and odds
    */
   private async processPendingUpdate(
-    callback: (totals: MatchTotalsDto) => Promise<void>
+    callback: (totals: MatchTotalsDto, odds: MatchOddsDto) => Promise<void>
   ): Promise<void> {
-    if (!this.pendingUpdate) {
-      logger.debug(`No pending update to process.`);
-      return;
-    }
-
-    const shouldUpdate = await this.shouldUpdateTotals();
-    if (shouldUpdate) {
-      const totals = await this.getMatchTotals();
+    const totals = await this.getMatchTotals();
+    if (await this.shouldUpdateTotals(totals)) {
+      const odds = await this.getMatchOdds();
       logger.info(
         `Processing pending totals update: blue=${logger.cyan(totals.blue)}, red=${logger.cyan(totals.red)}`
       );
-      await callback(totals);
+      await callback(totals, odds);
     }
-
-    this.lastUpdateTime = Date.now();
-    this.pendingUpdate = false;
-    this.updateTimeout = null;
-    logger.debug(
-      `Processed pending update. LastUpdateTime set to ${logger.cyan(this.lastUpdateTime)}`
-    );
   }
 
+  // ============= Finalization Scheduling =============
   /**
-   * Schedules automatic finalization of bets for a match
+   * Schedules automatic finalization of bets for a match. The deadline is
+   * persisted in Redis and picked up by the finalization worker, so it
+   * survives restarts. Rescheduling a match replaces its deadline.
    * @param matchId - The ID of the match to finalize
    */
-  scheduleFinalization(matchId: string): void {
-    // Clear any existing timeout for this match
-    this.cancelFinalization(matchId);
-    
+  async scheduleFinalization(matchId: string): Promise<void> {
+    const deadline = Date.now() + this.FINALIZATION_DELAY_MS;
     logger.info(
       `Scheduling automatic bet finalization for match ${logger.cyan(matchId)} in ${logger.cyan(this.FINALIZATION_DELAY_MS / 1000)} seconds.`
     );
+    await this.redis
+      .getClient()
+      .zadd(this.getFinalizationScheduleKey(), deadline, matchId);
+  }
 
-    // Set a new timeout
-    const timeout = setTimeout(async () => {
+  /**
+   * Cancels scheduled finalization for a match
+   * @param matchId - The ID of the match to cancel finalization for
+   */
+  async cancelFinalization(matchId: string): Promise<void> {
+    logger.info(
+      `Canceling scheduled finalization for match ${logger.cyan(matchId)}`
+    );
+    await this.redis
+      .getClient()
+      .zrem(this.getFinalizationScheduleKey(), matchId);
+  }
+
+  /**
+   * Starts polling for due finalizations. Deadlines that passed while the
+   * server was down are picked up on the first tick.
+   */
+  startFinalizationWorker(): void {
+    if (this.finalizationWorker) return;
+    logger.info(
+      `Starting finalization worker (polling every ${logger.cyan(this.FINALIZATION_POLL_MS)}ms)`
+    );
+    let running = false;
+    const tick = async () => {
+      // Never overlap ticks; a slow finalization simply delays the next poll
+      if (running) return;
+      running = true;
       try {
-        await this.finalizeBets(matchId);
+        await this.processDueFinalizations();
       } catch (error) {
         logger.error(
-          `Failed to finalize bets for match ${logger.cyan(matchId)}: ${logger.red(error instanceof Error ? error.message : error)}`
+          `Finalization worker tick failed: ${logger.red(error instanceof Error ? error.message : error)}`
         );
       } finally {
-        this.finalizationTimeouts.delete(matchId);
+        running = false;
       }
-    }, this.FINALIZATION_DELAY_MS);
+    };
+    void tick();
+    this.finalizationWorker = setInterval(tick, this.FINALIZATION_POLL_MS);
+  }
 
-    this.finalizationTimeouts.set(matchId, timeout);
+  /**
+   * Stops the finalization worker. Pending deadlines stay in Redis.
+   */
+  stopFinalizationWorker(): void {
+    if (this.finalizationWorker) {
+      clearInterval(this.finalizationWorker);
+      this.finalizationWorker = null;
+    }
   }
 
   /**
-   * Cancels scheduled finalization for a match
-   * @param matchId - The ID of the match to cancel finalization for
+   * Claims and runs every finalization whose deadline has passed.
+   *
+   * Claiming atomically pushes the deadline out by a lease, so concurrent
+   * workers never run the same match. The entry is only removed once the run
+   * is settled; if a worker dies mid-run the lease expires and another worker
+   * retries, and the OPEN -> LOCKED transition guarantees bets are persisted
+   * exactly once.
+   * @returns Promise<number> - The number of matches finalized
    */
-  cancelFinalization(matchId: string): void {
-    logger.info(
-      `Canceling scheduled finalization for match ${logger.cyan(matchId)}`
-    );
-    const timeout = this.finalizationTimeouts.get(matchId);
-    if (timeout) {
-      clearTimeout(timeout);
-      this.finalizationTimeouts.delete(matchId);
+  async processDueFinalizations(): Promise<number> {
+    const client = this.redis.getClient();
+    const now = Date.now();
+    const matchIds = (await client.eval(
+      this.claimFinalizationsScript,
+      1,
+      this.getFinalizationScheduleKey(),
+      now.toString(),
+      (now + this.FINALIZATION_LEASE_MS).toString(),
+      this.FINALIZATION_BATCH_SIZE.toString()
+    )) as string[];
+
+    let finalized = 0;
+    for (const matchId of matchIds) {
+      logger.info(`Running scheduled finalization for match ${logger.cyan(matchId)}`);
+      try {
+        await this.finalizeBets(matchId);
+        finalized++;
+      } catch (error) {
+        logger.error(
+          `Failed to finalize bets for match ${logger.cyan(matchId)}: ${logger.red(error instanceof Error ? error.message : error)}`
+        );
+        // Leave the claim in place to retry after the lease if the match is
+        // still waiting to be locked; otherwise there is nothing left to do
+        const match = await this.matchRepository.findOne({ where: { id: matchId } });
+        if (match?.status === MatchStatus.OPEN) continue;
+      }
+      await client.zrem(this.getFinalizationScheduleKey(), matchId);
     }
+    return finalized;
   }
 }
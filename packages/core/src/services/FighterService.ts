@@ -0,0 +1,127 @@
+import { In } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { Fighter } from "../entities/Fighter";
+import { SaltyBoyFighter } from "../types/saltyboy";
+import { BatchLoader } from "../utils/BatchLoader";
+import { logger } from "../utils/logger";
+import { SaltyBoyService } from "./SaltyBoyService";
+
+/**
+ * FighterService - Serves fighters from Postgres instead of calling Salty Boy
+ * on every resolve.
+ *
+ * Fighters are upserted whenever a match is created. Lookups return the stored
+ * copy straight away; a copy older than FIGHTER_REFRESH_MS is refreshed from
+ * Salty Boy in the background (stale-while-revalidate), and only fighters we
+ * have never seen are fetched inline.
+ */
+export class FighterService {
+  private static instance: FighterService;
+  private fighterRepository = AppDataSource.getRepository(Fighter);
+  private saltyBoyService = SaltyBoyService.getInstance();
+  private readonly refreshAfterMs = parseInt(
+    process.env.FIGHTER_REFRESH_MS || "86400000" // 24 hours
+  );
+  private refreshing = new Set<number>();
+
+  public static getInstance(): FighterService {
+    if (!FighterService.instance) {
+      FighterService.instance = new FighterService();
+    }
+    return FighterService.instance;
+  }
+
+  // ============================================
+  // Persistence
+  // ============================================
+
+  /**
+   * Inserts or updates fighters from Salty Boy payloads.
+   * @param {SaltyBoyFighter[]} fighters - Fighters as returned by the API
+   * @returns {Promise<void>}
+   */
+  async upsertFromSaltyBoy(fighters: SaltyBoyFighter[]): Promise<void> {
+    await this.fighterRepository.save(
+      fighters.map((fighter) => this.saltyBoyService.toFighter(fighter))
+    );
+    logger.debug(
+      `Upserted fighters ${logger.cyan(fighters.map((fighter) => fighter.id).join(", "))}`
+    );
+  }
+
+  // ============================================
+  // Lookups
+  // ============================================
+
+  /**
+   * Fetches many fighters at once.
+   * @param {number[]} ids - Salty Boy fighter ids
+   * @returns {Promise<Map<number, Fighter>>} The fighters found, keyed by id
+   */
+  async getFightersByIds(ids: number[]): Promise<Map<number, Fighter>> {
+    const uniqueIds = Array.from(new Set(ids));
+    const stored = await this.fighterRepository.findBy({ id: In(uniqueIds) });
+    const fighters = new Map(stored.map((fighter) => [fighter.id, fighter]));
+    logger.debug(
+      `Loaded ${logger.cyan(stored.length)}/${logger.cyan(uniqueIds.length)} fighters from the database`
+    );
+
+    // Serve stale copies now and refresh them in the background
+    const staleBefore = Date.now() - this.refreshAfterMs;
+    stored
+      .filter((fighter) => fighter.syncedAt.getTime() < staleBefore)
+      .forEach((fighter) => this.refreshInBackground(fighter.id));
+
+    // Fighters we have never seen must be fetched before we can answer
+    const missingIds = uniqueIds.filter((id) => !fighters.has(id));
+    const fetched = await Promise.allSettled(
+      missingIds.map((id) => this.fetchAndStore(id))
+    );
+    fetched.forEach((result) => {
+      if (result.status === "fulfilled") {
+        fighters.set(result.value.id, result.value);
+      }
+    });
+
+    return fighters;
+  }
+
+  /**
+   * Creates a loader that batches fighter lookups for one request.
+   * @returns {BatchLoader<number, Fighter>} A fresh loader
+   */
+  createLoader(): BatchLoader<number, Fighter> {
+    return new BatchLoader((ids) => this.getFightersByIds(ids));
+  }
+
+  // ============================================
+  // Refresh
+  // ============================================
+
+  /**
+   * Fetches a fighter from Salty Boy and stores it.
+   * @param {number} id - Salty Boy fighter id
+   * @returns {Promise<Fighter>} The stored fighter
+   */
+  private async fetchAndStore(id: number): Promise<Fighter> {
+    const fighter = await this.saltyBoyService.getFighterById(id);
+    return this.fighterRepository.save(fighter);
+  }
+
+  /**
+   * Refreshes a stale fighter without blocking the caller. Concurrent
+   * refreshes of the same fighter are collapsed into one.
+   * @param {number} id - Salty Boy fighter id
+   */
+  private refreshInBackground(id: number): void {
+    if (this.refreshing.has(id)) return;
+    this.refreshing.add(id);
+    this.fetchAndStore(id)
+      .catch((error) =>
+        logger.warn(
+          `Failed to refresh fighter ${logger.cyan(id)}, keeping stored copy: ${logger.red(error instanceof Error ? error.message : error)}`
+        )
+      )
+      .finally(() => this.refreshing.delete(id));
+  }
+}
@@ -0,0 +1,148 @@
+import { EntityManager, In } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { LedgerEntry } from "../entities/LedgerEntry";
+import { User } from "../entities/User";
+import { Match } from "../entities/Match";
+import { Bet } from "../entities/Bet";
+import { LedgerEntryType } from "../types/LedgerEntryType";
+import { LedgerEntryPageDto } from "../dtos/LedgerEntryPageDto";
+import { logger } from "../utils/logger";
+import { AvailableBalanceService } from "./AvailableBalanceService";
+
+/**
+ * Optional context stored alongside a ledger entry.
+ */
+export interface LedgerEntryDetails {
+  matchId?: string;
+  bet?: Bet;
+  actor?: User | null;
+  description?: string;
+}
+
+export class LedgerService {
+  private static instance: LedgerService;
+  private readonly MAX_PAGE_SIZE = 100;
+  private availableBalanceService = AvailableBalanceService.getInstance();
+
+  public static getInstance(): LedgerService {
+    if (!LedgerService.instance) {
+      LedgerService.instance = new LedgerService();
+    }
+    return LedgerService.instance;
+  }
+
+  // ============================================
+  // Balance Changes
+  // ============================================
+
+  /**
+   * Loads users with a row lock held until the transaction ends, so no other
+   * transaction can change their balance or stats in between. Rows are locked
+   * in ID order so transactions touching several users never deadlock.
+   *
+   * @param {EntityManager} manager - The transaction's entity manager
+   * @param {string[]} userIds - The users to lock (duplicates are fine)
+   * @returns {Promise<Map<string, User>>} The locked users, keyed by ID
+   */
+  async lockUsers(
+    manager: EntityManager,
+    userIds: string[]
+  ): Promise<Map<string, User>> {
+    const ids = [...new Set(userIds)];
+    if (ids.length === 0) return new Map();
+    const users = await manager.find(User, {
+      where: { id: In(ids) },
+      order: { id: "ASC" },
+      lock: { mode: "pessimistic_write" },
+    });
+    return new Map(users.map((user) => [user.id, user]));
+  }
+
+  /**
+   * Applies a balance change to a user and writes the matching ledger entry.
+   * Must be called with the transaction manager that owns the surrounding
+   * operation so the balance and its ledger entry commit (or roll back) together.
+   * Any other pending changes on the user entity (stats, etc.) are saved as well.
+   * The Redis available-balance mirror follows after commit, except for bet
+   * debits: those spend cents the mirror already reserved when the bet was placed.
+   *
+   * @param {EntityManager} manager - The transaction's entity manager
+   * @param {User} user - The user whose balance changes, loaded through `manager`
+   *   with a write lock (see `lockUsers`) unless created in this transaction
+   * @param {number} amount - Signed amount in cents to apply (negative for debits)
+   * @param {LedgerEntryType} type - Why the balance changed
+   * @param {LedgerEntryDetails} details - Related match, bet, actor and description
+   * @returns {Promise<LedgerEntry>} The saved ledger entry
+   */
+  async record(
+    manager: EntityManager,
+    user: User,
+    amount: number,
+    type: LedgerEntryType,
+    details: LedgerEntryDetails = {}
+  ): Promise<LedgerEntry> {
+    user.balance += amount;
+    await manager.save(user);
+
+    const entry = manager.create(LedgerEntry, {
+      type,
+      amount,
+      balanceAfter: user.balance,
+      description: details.description ?? null,
+      user,
+      match: details.matchId ? manager.create(Match, { id: details.matchId }) : null,
+      bet: details.bet ?? null,
+      actor: details.actor ?? null,
+    });
+    await manager.save(entry);
+
+    if (type !== LedgerEntryType.BET_DEBIT) {
+      this.availableBalanceService.queueAdjustment(manager, user.id, amount);
+    }
+
+    logger.debug(
+      `Ledger ${logger.cyan(type)} for user ${logger.cyan(user.id)}: amount=${logger.cyan(amount)}, balanceAfter=${logger.cyan(user.balance)}`
+    );
+    return entry;
+  }
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  /**
+   * Fetches a page of a user's ledger entries, newest first.
+   *
+   * @param {string} userId - The user whose ledger to read
+   * @param {number} take - Maximum number of entries to return (capped at 100)
+   * @param {number} skip - Number of entries to skip
+   * @returns {Promise<LedgerEntryPageDto>} The requested page and the total entry count
+   */
+  async getEntries(
+    userId: string,
+    take: number,
+    skip: number
+  ): Promise<LedgerEntryPageDto> {
+    const pageSize = Math.min(Math.max(take, 1), this.MAX_PAGE_SIZE);
+    const offset = Math.max(skip, 0);
+    logger.debug(
+      `Fetching ledger for user ${logger.cyan(userId)}: take=${logger.cyan(pageSize)}, skip=${logger.cyan(offset)}`
+    );
+
+    const [entries, total] = await AppDataSource.getRepository(
+      LedgerEntry
+    ).findAndCount({
+      where: { user: { id: userId } },
+      relations: ["match", "actor"],
+      order: { createdAt: "DESC" },
+      take: pageSize,
+      skip: offset,
+    });
+
+    return {
+      entries,
+      total,
+      hasMore: offset + entries.length < total,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { randomUUID } from "crypto";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { RedisService } from "./RedisService";
+import { logger } from "../utils/logger";
+import { LockBusyError } from "../utils/LockBusyError";
+
+/**
+ * LockService - Redis locks that serialize match lifecycle operations across
+ * every server. A lock is never waited for: whoever loses the race gets an
+ * error straight away instead of repeating work the winner is already doing.
+ *
+ * Locks expire after a lease so a crashed holder cannot block a match
+ * forever. A live holder renews the lease while its task runs, so a slow
+ * task (e.g. Salty Boy lookups retrying with backoff) keeps the lock however
+ * long it takes. The match status checks inside each operation still reject
+ * a transition that has already happened.
+ */
+export class LockService {
+  private static instance: LockService;
+  private redis: RedisService;
+  private releaseLockScript: string;
+  private extendLockScript: string;
+
+  readonly LOCK_LEASE_MS = 60000; // 60 seconds
+  private readonly LEASE_RENEWAL_MS = 20000; // A third of the lease, so one missed renewal is survivable
+
+  private constructor() {
+    this.redis = RedisService.getInstance();
+    this.releaseLockScript = readFileSync(
+      join(__dirname, "../scripts/redis/release_lock.lua"),
+      "utf8"
+    );
+    this.extendLockScript = readFileSync(
+      join(__dirname, "../scripts/redis/extend_lock.lua"),
+      "utf8"
+    );
+  }
+
+  public static getInstance(): LockService {
+    if (!LockService.instance) {
+      LockService.instance = new LockService();
+    }
+    return LockService.instance;
+  }
+
+  // ============================================
+  // Redis Key Management
+  // ============================================
+
+  /**
+   * Returns the Redis key of a named lock.
+   * @param {string} name - The lock name, e.g. `match:<matchId>`
+   * @returns {string} The Redis key
+   */
+  private getKey(name: string): string {
+    return `lock:${name}`;
+  }
+
+  // ============================================
+  // Locking
+  // ============================================
+
+  /**
+   * Runs a task while holding a named lock.
+   * @param {string} name - The lock name
+   * @param {string} busyMessage - The error message when someone else holds the lock
+   * @param {() => Promise<T>} task - The work to do while holding the lock
+   * @returns {Promise<T>} What the task returned
+   * @throws {LockBusyError} With busyMessage if the lock is already held
+   */
+  async withLock<T>(
+    name: string,
+    busyMessage: string,
+    task: () => Promise<T>
+  ): Promise<T> {
+    const client = this.redis.getClient();
+    const key = this.getKey(name);
+    const token = randomUUID();
+
+    const acquired = await client.set(key, token, "PX", this.LOCK_LEASE_MS, "NX");
+    if (acquired !== "OK") {
+      logger.warn(`Lock ${logger.cyan(name)} is already held`);
+      throw new LockBusyError(name, busyMessage);
+    }
+    logger.debug(`Acquired lock ${logger.cyan(name)}`);
+
+    const renewal = setInterval(
+      () => void this.renewLease(name, key, token),
+      this.LEASE_RENEWAL_MS
+    );
+    try {
+      return await task();
+    } finally {
+      clearInterval(renewal);
+      // A lock that can't be released expires with its lease
+      try {
+        await client.eval(
+          this.releaseLockScript,
+          1,
+          key,
+          token
+        );
+        logger.debug(`Released lock ${logger.cyan(name)}`);
+      } catch (error) {
+        logger.error(`Failed to release lock ${logger.cyan(name)}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Pushes back the expiry of a lock this holder still owns.
+   * @param {string} name - The lock name
+   * @param {string} key - The lock's Redis key
+   * @param {string} token - The holder's token
+   * @returns {Promise<void>}
+   */
+  private async renewLease(name: string, key: string, token: string): Promise<void> {
+    try {
+      const renewed = await this.redis
+        .getClient()
+        .eval(this.extendLockScript, 1, key, token, this.LOCK_LEASE_MS.toString());
+      if (renewed === 0) {
+        logger.error(`Lock ${logger.cyan(name)} was lost before its task finished`);
+      }
+    } catch (error) {
+      logger.error(`Failed to renew lock ${logger.cyan(name)}:`, error);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import { In, Not } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { Match } from "../entities/Match";
+import { SaltyBoyMatch } from "../types/saltyboy";
+import { logger } from "../utils/logger";
+import { SaltyBoyService } from "./SaltyBoyService";
+
+/**
+ * A Salty Boy record chosen as the result of one of our matches.
+ */
+export interface MatchCorrelation {
+  saltyBoyMatch: SaltyBoyMatch;
+  confidence: number;
+}
+
+/**
+ * MatchCorrelationService - Finds the Salty Boy record of one of our matches.
+ *
+ * Candidates are recent Salty Boy matches between the same two fighters,
+ * recorded within a time window around when our match was created, that no
+ * other match has already claimed. Claimed records are skipped so rematches
+ * of the same pair each get their own record. The closest candidate in time
+ * wins; its confidence drops with distance in time, with swapped corners and
+ * when another candidate was nearly as good.
+ */
+export class MatchCorrelationService {
+  private static instance: MatchCorrelationService;
+  private saltyBoyService = SaltyBoyService.getInstance();
+  private matchRepository = AppDataSource.getRepository(Match);
+
+  readonly MIN_CONFIDENCE = 0.7;
+  private readonly SEARCH_DEPTH = 200; // Most recent Salty Boy matches searched
+  private readonly WINDOW_BEFORE_MS = 2 * 60 * 1000; // 2 minutes
+  private readonly WINDOW_AFTER_MS = 30 * 60 * 1000; // 30 minutes
+  private readonly MAX_TIME_PENALTY = 0.3;
+  private readonly SWAPPED_CORNERS_PENALTY = 0.4;
+  private readonly AMBIGUITY_PENALTY = 0.2;
+
+  public static getInstance(): MatchCorrelationService {
+    if (!MatchCorrelationService.instance) {
+      MatchCorrelationService.instance = new MatchCorrelationService();
+    }
+    return MatchCorrelationService.instance;
+  }
+
+  // ============================================
+  // Correlation
+  // ============================================
+
+  /**
+   * Finds the Salty Boy record that best matches a match.
+   * @param {Match} match - The match to correlate. Both fighter ids must be known
+   * @returns {Promise<MatchCorrelation | null>} The best candidate, or null if there is none
+   */
+  async correlate(match: Match): Promise<MatchCorrelation | null> {
+    logger.debug(`Correlating match ${logger.cyan(match.id)} with Salty Boy`);
+    const recent = await this.saltyBoyService.getRecentMatches(this.SEARCH_DEPTH);
+    const createdAt = match.createdAt.getTime();
+
+    const pairMatches = recent.filter(
+      (candidate) =>
+        this.isSamePair(match, candidate) &&
+        new Date(candidate.date).getTime() >= createdAt - this.WINDOW_BEFORE_MS &&
+        new Date(candidate.date).getTime() <= createdAt + this.WINDOW_AFTER_MS
+    );
+    const claimed = await this.getClaimedIds(
+      match.id,
+      pairMatches.map((candidate) => candidate.id)
+    );
+    const scored = pairMatches
+      .filter((candidate) => !claimed.has(candidate.id))
+      .map((candidate) => ({
+        saltyBoyMatch: candidate,
+        confidence: this.score(match, candidate),
+      }))
+      .sort((a, b) => b.confidence - a.confidence);
+
+    if (scored.length === 0) {
+      logger.debug(`No Salty Boy candidates for match ${logger.cyan(match.id)}`);
+      return null;
+    }
+
+    const [best, runnerUp] = scored;
+    if (runnerUp && best.confidence - runnerUp.confidence < this.AMBIGUITY_PENALTY) {
+      best.confidence -= this.AMBIGUITY_PENALTY;
+    }
+    best.confidence = Math.max(0, Math.round(best.confidence * 100) / 100);
+    logger.debug(
+      `Best Salty Boy candidate for match ${logger.cyan(match.id)} is ${logger.cyan(best.saltyBoyMatch.id)} (confidence ${logger.cyan(best.confidence)}, ${logger.cyan(scored.length)} candidates)`
+    );
+    return best;
+  }
+
+  /**
+   * Checks that a Salty Boy record is between the match's two fighters, in
+   * either corner.
+   * @param {Match} match - Our match
+   * @param {SaltyBoyMatch} candidate - The Salty Boy record
+   * @returns {boolean} True if the fighters are the same
+   */
+  isSamePair(match: Match, candidate: SaltyBoyMatch): boolean {
+    return (
+      (candidate.fighter_blue === match.fighterBlueId &&
+        candidate.fighter_red === match.fighterRedId) ||
+      (candidate.fighter_blue === match.fighterRedId &&
+        candidate.fighter_red === match.fighterBlueId)
+    );
+  }
+
+  /**
+   * Scores a candidate before ambiguity is taken into account.
+   * @param {Match} match - Our match
+   * @param {SaltyBoyMatch} candidate - A Salty Boy record between the same fighters
+   * @returns {number} The confidence, at most 1
+   */
+  private score(match: Match, candidate: SaltyBoyMatch): number {
+    const distance = Math.abs(
+      new Date(candidate.date).getTime() - match.createdAt.getTime()
+    );
+    let confidence =
+      1 - Math.min(1, distance / this.WINDOW_AFTER_MS) * this.MAX_TIME_PENALTY;
+    if (candidate.fighter_blue !== match.fighterBlueId) {
+      confidence -= this.SWAPPED_CORNERS_PENALTY;
+    }
+    return confidence;
+  }
+
+  /**
+   * Returns the Salty Boy ids, out of the given ones, that another match
+   * already took its result from.
+   * @param {string} matchId - The match being correlated
+   * @param {number[]} externalIds - Candidate Salty Boy ids
+   * @returns {Promise<Set<number>>} The claimed ids
+   */
+  async getClaimedIds(matchId: string, externalIds: number[]): Promise<Set<number>> {
+    if (externalIds.length === 0) return new Set();
+    const claimedBy = await this.matchRepository.find({
+      select: { id: true, externalId: true },
+      where: { id: Not(matchId), externalId: In(externalIds) },
+    });
+    return new Set(claimedBy.map((claimed) => claimed.externalId));
+  }
+}
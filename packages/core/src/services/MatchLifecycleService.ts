@@ -0,0 +1,93 @@
+import { EntityManager } from "typeorm";
+import { Match } from "../entities/Match";
+import { MatchStatus } from "../types/MatchStatus";
+import { logger } from "../utils/logger";
+
+export class MatchLifecycleService {
+  private static instance: MatchLifecycleService;
+
+  // Allowed status transitions. RESOLVED and VOIDED are terminal.
+  private readonly transitions: Record<MatchStatus, MatchStatus[]> = {
+    [MatchStatus.OPEN]: [MatchStatus.LOCKED, MatchStatus.VOIDED],
+    [MatchStatus.LOCKED]: [MatchStatus.RESOLVED, MatchStatus.VOIDED],
+    [MatchStatus.RESOLVED]: [],
+    [MatchStatus.VOIDED]: [],
+  };
+
+  public static getInstance(): MatchLifecycleService {
+    if (!MatchLifecycleService.instance) {
+      MatchLifecycleService.instance = new MatchLifecycleService();
+    }
+    return MatchLifecycleService.instance;
+  }
+
+  // ============================================
+  // Transition Rules
+  // ============================================
+
+  /**
+   * Checks whether a match may move from one status to another.
+   *
+   * @param {MatchStatus} from - The current status
+   * @param {MatchStatus} to - The requested status
+   * @returns {boolean} True if the transition is allowed
+   */
+  canTransition(from: MatchStatus, to: MatchStatus): boolean {
+    return this.transitions[from].includes(to);
+  }
+
+  /**
+   * Throws if a match may not move to the requested status.
+   *
+   * @param {Match} match - The match to check
+   * @param {MatchStatus} to - The requested status
+   * @throws {Error} If the transition is not allowed
+   */
+  assertTransition(match: Match, to: MatchStatus): void {
+    if (!this.canTransition(match.status, to)) {
+      logger.warn(
+        `Rejected status transition for match ${logger.cyan(match.id)}: ${logger.cyan(match.status)} -> ${logger.red(to)}`
+      );
+      throw new Error(`Match cannot move from ${match.status} to ${to}`);
+    }
+  }
+
+  // ============================================
+  // Transitions
+  // ============================================
+
+  /**
+   * Moves a match to a new status inside the caller's transaction. The match
+   * row is locked so concurrent transitions of the same match are serialized.
+   *
+   * @param {EntityManager} manager - The transaction's entity manager
+   * @param {string} matchId - The match to transition
+   * @param {MatchStatus} to - The requested status
+   * @returns {Promise<Match>} The updated match
+   * @throws {Error} If the match does not exist or the transition is not allowed
+   */
+  async transition(
+    manager: EntityManager,
+    matchId: string,
+    to: MatchStatus
+  ): Promise<Match> {
+    const match = await manager.findOne(Match, {
+      where: { id: matchId },
+      lock: { mode: "pessimistic_write" },
+    });
+    if (!match) {
+      logger.error(`Match ${logger.cyan(matchId)} not found`);
+      throw new Error("Match not found");
+    }
+
+    this.assertTransition(match, to);
+    const from = match.status;
+    match.status = to;
+    await manager.save(match);
+
+    logger.info(
+      `Match ${logger.cyan(matchId)} moved from ${logger.cyan(from)} to ${logger.cyan(to)}`
+    );
+    return match;
+  }
+}
@@ -0,0 +1,206 @@
+import { AppDataSource } from "../data-source";
+import { Match } from "../entities/Match";
+import { MatchOrchestratorStateDto } from "../dtos/MatchOrchestratorStateDto";
+import { logger } from "../utils/logger";
+import { LockBusyError } from "../utils/LockBusyError";
+import { RedisService } from "./RedisService";
+import { SaltyBoyService } from "./SaltyBoyService";
+import { MatchService } from "./MatchService";
+
+/**
+ * MatchOrchestratorService - Opt-in background loop that polls Salty Boy and
+ * drives the match lifecycle without a manager clicking "create match".
+ *
+ * Each poll checks the Salty Boy current match; when it is a fight we have not
+ * seen, the previous match is ended (result + payouts) and the new one is
+ * created, which also schedules its bet finalization; matches in the
+ * unresolved queue are retried at the same time. After repeated lifecycle
+ * failures (e.g. Postgres or Redis errors) it pauses itself so an admin can
+ * step in.
+ */
+export class MatchOrchestratorService {
+  private static instance: MatchOrchestratorService;
+  private redis = RedisService.getInstance();
+  private saltyBoyService = SaltyBoyService.getInstance();
+  private matchService = MatchService.getInstance();
+  private matchRepository = AppDataSource.getRepository(Match);
+
+  private readonly enabled = process.env.MATCH_ORCHESTRATOR_ENABLED === "true";
+  private readonly pollIntervalMs = parseInt(
+    process.env.MATCH_ORCHESTRATOR_POLL_MS || "5000"
+  );
+  private readonly MAX_CONSECUTIVE_FAILURES = 5;
+
+  private interval: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastPollAt: Date | null = null;
+  private lastCreatedMatchId: string | null = null;
+  private lastError: string | null = null;
+  private lastErrorAt: Date | null = null;
+  private consecutiveFailures = 0;
+
+  public static getInstance(): MatchOrchestratorService {
+    if (!MatchOrchestratorService.instance) {
+      MatchOrchestratorService.instance = new MatchOrchestratorService();
+    }
+    return MatchOrchestratorService.instance;
+  }
+
+  // ============================================
+  // Redis Key Management
+  // ============================================
+
+  /**
+   * Holds the pause reason while the orchestrator is paused. Stored in Redis
+   * so a pause survives restarts and applies to every server.
+   */
+  private getPausedKey(): string {
+    return "orchestrator:paused";
+  }
+
+  // ============================================
+  // Worker Control
+  // ============================================
+
+  /**
+   * Starts polling if MATCH_ORCHESTRATOR_ENABLED is "true". Does nothing otherwise.
+   */
+  start(): void {
+    if (!this.enabled) {
+      logger.info("Match orchestrator disabled (set MATCH_ORCHESTRATOR_ENABLED=true to enable)");
+      return;
+    }
+    if (this.interval) return;
+    logger.info(
+      `Starting match orchestrator (polling every ${logger.cyan(this.pollIntervalMs)}ms)`
+    );
+    this.interval = setInterval(() => void this.poll(), this.pollIntervalMs);
+  }
+
+  /**
+   * Stops polling on this server.
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Pauses the orchestrator on every server.
+   * @param {string} reason - Why it is being paused
+   * @returns {Promise<MatchOrchestratorStateDto>} The updated state
+   */
+  async pause(reason: string): Promise<MatchOrchestratorStateDto> {
+    logger.warn(`Pausing match orchestrator: ${logger.cyan(reason)}`);
+    await this.redis.getClient().set(this.getPausedKey(), reason);
+    return this.getState();
+  }
+
+  /**
+   * Resumes the orchestrator and clears its failure count.
+   * @returns {Promise<MatchOrchestratorStateDto>} The updated state
+   */
+  async resume(): Promise<MatchOrchestratorStateDto> {
+    logger.info("Resuming match orchestrator");
+    await this.redis.getClient().del(this.getPausedKey());
+    this.consecutiveFailures = 0;
+    return this.getState();
+  }
+
+  /**
+   * Returns the orchestrator's current state.
+   * @returns {Promise<MatchOrchestratorStateDto>} The state
+   */
+  async getState(): Promise<MatchOrchestratorStateDto> {
+    const pauseReason = await this.redis.getClient().get(this.getPausedKey());
+    return {
+      enabled: this.enabled,
+      paused: pauseReason !== null,
+      pauseReason,
+      pollIntervalMs: this.pollIntervalMs,
+      lastPollAt: this.lastPollAt,
+      lastCreatedMatchId: this.lastCreatedMatchId,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+  }
+
+  // ============================================
+  // Polling
+  // ============================================
+
+  /**
+   * Runs one poll: creates a match (ending the previous one) when Salty Boy
+   * reports a fight we have not seen yet.
+   * @returns {Promise<void>}
+   */
+  private async poll(): Promise<void> {
+    // Never overlap polls; ending a match can outlast the interval
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      if (await this.redis.getClient().exists(this.getPausedKey())) return;
+      this.lastPollAt = new Date();
+
+      // Salty Boy being unreachable or between fights is normal, so it is
+      // reported but never pauses the loop
+      let hash: string;
+      try {
+        ({ hash } = await this.saltyBoyService.getCurrentMatch());
+      } catch (error) {
+        this.lastError = error instanceof Error ? error.message : String(error);
+        this.lastErrorAt = new Date();
+        return;
+      }
+
+      const known = await this.matchRepository.exists({ where: { id: hash } });
+      if (!known) {
+        logger.info(`Match orchestrator detected new fight ${logger.cyan(hash)}`);
+        const match = await this.matchService.createMatch();
+        this.lastCreatedMatchId = match.id;
+
+        // Earlier results have usually been recorded by the next fight
+        await this.matchService.retryUnresolvedMatches();
+      }
+      this.consecutiveFailures = 0;
+    } catch (error) {
+      // Another server or a manager is already doing the step; the next poll
+      // sees its result, so it is not a failure
+      if (error instanceof LockBusyError) {
+        logger.info(
+          `Match orchestrator skipped a poll: lock ${logger.cyan(error.lockName)} is held elsewhere`
+        );
+        return;
+      }
+      await this.recordFailure(error).catch((pauseError) =>
+        logger.error("Failed to record match orchestrator failure:", pauseError)
+      );
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Records a failed lifecycle step and pauses the orchestrator once failures
+   * pile up.
+   * @param {unknown} error - The error the poll threw
+   * @returns {Promise<void>}
+   */
+  private async recordFailure(error: unknown): Promise<void> {
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.lastErrorAt = new Date();
+    this.consecutiveFailures += 1;
+    logger.warn(
+      `Match orchestrator poll failed (${logger.cyan(this.consecutiveFailures)} in a row): ${logger.red(this.lastError)}`
+    );
+
+    if (this.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES) {
+      await this.pause(
+        `Paused automatically after ${this.consecutiveFailures} failed polls: ${this.lastError}`
+      );
+    }
+  }
+}
@@ -0,0 +1,948 @@
+import { randomUUID } from "crypto";
+import { EntityManager, IsNull, Not } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { Match } from "../entities/Match";
+import { FighterColor } from "../types/FighterColor";
+import { MatchStatus } from "../types/MatchStatus";
+import { MatchFormat } from "../types/MatchFormat";
+import { PeriodStatsChange } from "../types/PeriodStats";
+import { logger } from "../utils/logger";
+import { decodeCursor, encodeCursor } from "../utils/Cursor";
+import { MatchFilterInputDto } from "../dtos/MatchFilterInputDto";
+import { MatchConnectionDto } from "../dtos/MatchConnectionDto";
+import { SubscriptionKeys } from "../types/Context";
+import { SaltyBoyService } from "./SaltyBoyService";
+import { PayoutService } from "./PayoutService";
+import { BetService } from "./BetService";
+import { MatchLifecycleService } from "./MatchLifecycleService";
+import { PeriodStatsService } from "./PeriodStatsService";
+import { FighterService } from "./FighterService";
+import { MatchSettingsService } from "./MatchSettingsService";
+import { PubSubService } from "./PubSubService";
+import { LockService } from "./LockService";
+import {
+  MatchCorrelation,
+  MatchCorrelationService,
+} from "./MatchCorrelationService";
+
+/**
+ * MatchService - Drives the match lifecycle: creating matches from Salty Boy,
+ * ending and paying them out, correcting winners and voiding. Shared by the
+ * GraphQL resolver and the automatic match orchestrator.
+ */
+export class MatchService {
+  private static instance: MatchService;
+  private saltyBoyService = SaltyBoyService.getInstance();
+  private matchRepository = AppDataSource.getRepository(Match);
+  private payoutService = PayoutService.getInstance();
+  private betService = BetService.getInstance();
+  private matchLifecycleService = MatchLifecycleService.getInstance();
+  private periodStatsService = PeriodStatsService.getInstance();
+  private fighterService = FighterService.getInstance();
+  private matchSettingsService = MatchSettingsService.getInstance();
+  private matchCorrelationService = MatchCorrelationService.getInstance();
+  private pubSubService = PubSubService.getInstance();
+  private lockService = LockService.getInstance();
+
+  private readonly MAX_PAGE_SIZE = 100;
+  private readonly PERIOD_STATS_RETRY_MS = 30000; // 30 seconds
+
+  private periodStatsWorker: NodeJS.Timeout | null = null;
+
+  public static getInstance(): MatchService {
+    if (!MatchService.instance) {
+      MatchService.instance = new MatchService();
+    }
+    return MatchService.instance;
+  }
+
+  // ============================================
+  // Helper Methods
+  // ============================================
+
+  /**
+   * Determines the winner's color based on the winner ID and match fighter IDs.
+   *
+   * @param {Match} match - The match to check
+   * @param {number} winnerId - The ID of the winning fighter
+   * @returns {FighterColor} The color of the winning fighter (RED or BLUE)
+   * @throws {Error} If the winner ID doesn't match either fighter
+   */
+  private getWinnerColor(match: Match, winnerId: number): FighterColor {
+    logger.debug(
+      `Determining winner color for match ${logger.cyan(
+        match.id
+      )} with winner ID ${logger.cyan(winnerId)}`
+    );
+    if (winnerId === match.fighterRedId) {
+      logger.debug(
+        `Winner is ${logger.red("RED")} fighter (ID: ${logger.cyan(winnerId)})`
+      );
+      return FighterColor.RED;
+    }
+    if (winnerId === match.fighterBlueId) {
+      logger.debug(
+        `Winner is ${logger.blue("BLUE")} fighter (ID: ${logger.cyan(
+          winnerId
+        )})`
+      );
+      return FighterColor.BLUE;
+    }
+    logger.error(
+      `Invalid winner ID ${logger.cyan(winnerId)} for match ${logger.cyan(
+        match.id
+      )}`
+    );
+    throw new Error("Winner ID does not match either fighter in this match.");
+  }
+
+  /**
+   * Checks whether Salty Boy will report the result of a match. It records
+   * neither exhibitions nor fights between fighters it does not know.
+   *
+   * @param {Match} match - The match to check
+   * @returns {boolean} True if the result can be looked up on Salty Boy
+   */
+  private hasSaltyBoyResult(match: Match): boolean {
+    return (
+      match.matchFormat !== MatchFormat.EXHIBITION &&
+      match.fighterBlueId !== null &&
+      match.fighterRedId !== null
+    );
+  }
+
+  /**
+   * Runs a lifecycle step while holding the match's lock, so concurrent
+   * requests and the orchestrator never end, correct or void it twice.
+   *
+   * @param {string} matchId - The ID of the match
+   * @param {() => Promise<T>} task - The lifecycle step
+   * @returns {Promise<T>} What the step returned
+   * @throws {Error} If another request is already changing the match
+   */
+  private withMatchLock<T>(matchId: string, task: () => Promise<T>): Promise<T> {
+    return this.lockService.withLock(
+      `match:${matchId}`,
+      "This match is already being updated by another request. Refresh to see its latest state",
+      task
+    );
+  }
+
+  // ============================================
+  // Queries
+  // ============================================
+
+  /**
+   * Fetches the most recent match in the system (usually the current match).
+   *
+   * @returns {Promise<Match | null>} The most recent match or null if none exist
+   */
+  async getCurrentMatch(): Promise<Match | null> {
+    logger.debug("Fetching current match");
+    const matches = await this.matchRepository.find({
+      order: { createdAt: "DESC" },
+      take: 1,
+    });
+    const currentMatch = matches[0] || null;
+    logger.debug(
+      `Current match: ${currentMatch ? logger.cyan(currentMatch.id) : "none"}`
+    );
+    return currentMatch;
+  }
+
+  /**
+   * Fetches a page of matches, newest first.
+   *
+   * @param {MatchFilterInputDto} filter - Which matches to include
+   * @param {number} first - Page size (capped at 100)
+   * @param {string} [after] - Cursor of the last match on the previous page
+   * @param {string} [userId] - The current user, required by `filter.onlyMine`
+   * @returns {Promise<MatchConnectionDto>} The page of matches
+   * @throws {Error} If the cursor is invalid or `onlyMine` is used without a user
+   */
+  async getMatches(
+    filter: MatchFilterInputDto,
+    first: number,
+    after?: string,
+    userId?: string
+  ): Promise<MatchConnectionDto> {
+    const pageSize = Math.min(Math.max(first, 1), this.MAX_PAGE_SIZE);
+    logger.debug(
+      `Fetching matches: first=${logger.cyan(pageSize)}, after=${logger.cyan(after ?? "start")}`
+    );
+
+    const query = this.matchRepository.createQueryBuilder("match");
+    if (filter.status) {
+      query.andWhere("match.status = :status", { status: filter.status });
+    }
+    if (filter.winner) {
+      query.andWhere("match.winner = :winner", { winner: filter.winner });
+    }
+    if (filter.fighterId !== undefined && filter.fighterId !== null) {
+      query.andWhere(
+        "(match.fighterBlueId = :fighterId OR match.fighterRedId = :fighterId)",
+        { fighterId: filter.fighterId }
+      );
+    }
+    if (filter.tier) {
+      query.andWhere("match.tier = :tier", { tier: filter.tier });
+    }
+    if (filter.matchFormat) {
+      query.andWhere("match.matchFormat = :matchFormat", { matchFormat: filter.matchFormat });
+    }
+    if (filter.createdAfter) {
+      query.andWhere("match.createdAt >= :createdAfter", { createdAfter: filter.createdAfter });
+    }
+    if (filter.createdBefore) {
+      query.andWhere("match.createdAt < :createdBefore", { createdBefore: filter.createdBefore });
+    }
+    if (filter.onlyMine) {
+      if (!userId) {
+        throw new Error("You must be logged in to filter by your bets");
+      }
+      query.andWhere(
+        'EXISTS (SELECT 1 FROM "bet" WHERE "bet"."matchId" = "match"."id" AND "bet"."userId" = :userId)',
+        { userId }
+      );
+    }
+
+    const totalCount = await query.getCount();
+
+    // Postgres keeps microseconds but cursors only carry milliseconds, so
+    // order and compare on the truncated time to keep pages consistent
+    const createdAtMs = `date_trunc('milliseconds', "match"."createdAt")`;
+    if (after) {
+      const position = decodeCursor(after);
+      query.andWhere(`(${createdAtMs}, "match"."id") < (:afterCreatedAt, :afterId)`, {
+        afterCreatedAt: position.createdAt,
+        afterId: position.id,
+      });
+    }
+    const matches = await query
+      .orderBy(createdAtMs, "DESC")
+      .addOrderBy("match.id", "DESC")
+      .limit(pageSize + 1)
+      .getMany();
+
+    const hasNextPage = matches.length > pageSize;
+    const edges = matches.slice(0, pageSize).map((match) => ({
+      cursor: encodeCursor(match.createdAt, match.id),
+      node: match,
+    }));
+    return {
+      edges,
+      pageInfo: {
+        hasNextPage,
+        endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+      },
+      totalCount,
+    };
+  }
+
+  // ============================================
+  // Lifecycle
+  // ============================================
+
+  /**
+   * Creates a new match from the Salty Boy current match, ending (and paying
+   * out) the previous match first if it is still OPEN or LOCKED. If its
+   * result can't be found yet it is left in the unresolved queue.
+   *
+   * @param {FighterColor} [winner] - Manual winner for the previous match, used on a mismatch
+   * @returns {Promise<Match>} The newly created match
+   * @throws {Error} If the Salty Boy API hasn't updated the current match, or another request is already creating one
+   */
+  async createMatch(winner?: FighterColor): Promise<Match> {
+    return this.lockService.withLock(
+      "match:create",
+      "A new match is already being created by another request. Refresh to see it",
+      () => this.createNextMatch(winner)
+    );
+  }
+
+  /**
+   * Does the work of createMatch while holding the create lock.
+   *
+   * @param {FighterColor} [winner] - Manual winner for the previous match
+   * @returns {Promise<Match>} The newly created match
+   */
+  private async createNextMatch(winner?: FighterColor): Promise<Match> {
+    logger.info("Creating new match");
+    const { data, hash } = await this.saltyBoyService.getCurrentMatch();
+
+    // Check if a match with this hash already exists
+    const existingMatch = await this.matchRepository.findOne({
+      where: { id: hash },
+    });
+
+    if (existingMatch) {
+      logger.warn(`Match with hash ${logger.cyan(hash)} already exists`);
+      throw new Error(
+        "The Salty Boy API has not updated the current match yet. Please try again later."
+      );
+    }
+
+    const currentMatch = await this.getCurrentMatch();
+    if (
+      currentMatch &&
+      (currentMatch.status === MatchStatus.OPEN ||
+        currentMatch.status === MatchStatus.LOCKED)
+    ) {
+      if (!currentMatch.bettable && !winner) {
+        // Nobody could bet on it, so there is nothing to settle
+        logger.info(
+          `Voiding unbettable match ${logger.cyan(currentMatch.id)} before creating new match`
+        );
+        await this.withMatchLock(currentMatch.id, () =>
+          this.voidOpenMatch(currentMatch.id, "Match was not open for betting")
+        );
+      } else {
+        logger.info(
+          `Ending current match ${logger.cyan(
+            currentMatch.id
+          )} before creating new match`
+        );
+        // A match without a result waits in the unresolved queue instead of
+        // holding up the next one
+        await this.withMatchLock(currentMatch.id, () =>
+          this.settleMatch(currentMatch.id, winner)
+        );
+      }
+    }
+
+    const matchFormat = this.saltyBoyService.getMatchFormat(data);
+    const bettable = await this.matchSettingsService.isBettable(matchFormat);
+
+    logger.debug(
+      `Creating ${logger.cyan(matchFormat)} match with hash ${logger.cyan(hash)} (bettable: ${logger.cyan(bettable)})`
+    );
+    const match = this.matchRepository.create({
+      id: hash,
+      // Unbettable matches skip straight to waiting for a result
+      status: bettable ? MatchStatus.OPEN : MatchStatus.LOCKED,
+      winner: null,
+      matchFormat,
+      tier: data.tier,
+      bettable,
+      fighterBlueId: data.fighter_blue_info?.id ?? null,
+      fighterRedId: data.fighter_red_info?.id ?? null,
+      fighterBlueName: data.fighter_blue_info?.name ?? data.fighter_blue,
+      fighterRedName: data.fighter_red_info?.name ?? data.fighter_red,
+    });
+
+    await this.matchRepository.save(match);
+    logger.success(`Created new match ${logger.cyan(match.id)}`);
+
+    // Keep the stored fighters current so resolvers never hit Salty Boy.
+    // Not fatal: a missing fighter is fetched on first lookup instead.
+    const knownFighters = [data.fighter_blue_info, data.fighter_red_info].filter(
+      (fighter) => fighter !== null
+    );
+    try {
+      await this.fighterService.upsertFromSaltyBoy(knownFighters);
+    } catch (error) {
+      logger.warn(
+        `Failed to store fighters for match ${logger.cyan(match.id)}: ${logger.red(error instanceof Error ? error.message : error)}`
+      );
+    }
+
+    // Drop any active-bet state that doesn't belong to the new match
+    await this.betService.cleanupStaleBets(hash);
+
+    // Schedule automatic bet finalization, or keep wagers out entirely
+    if (bettable) {
+      await this.betService.scheduleFinalization(hash);
+      logger.debug(`Scheduled bet finalization for match ${logger.cyan(hash)}`);
+    } else {
+      await this.betService.lockBetting(hash);
+    }
+
+    this.pubSubService.publish(SubscriptionKeys.MatchCreated, match);
+    return match;
+  }
+
+  /**
+   * Ends a match: locks its bets if still OPEN, finds its result on Salty Boy
+   * (LOCKED -> RESOLVED) and pays out. A match whose result can't be found
+   * stays LOCKED in the unresolved queue.
+   *
+   * @param {string} matchId - The ID of the match to end
+   * @param {FighterColor} [winner] - Manual winner, used when no confident Salty Boy result is found
+   * @returns {Promise<Match>} The updated match with winner set
+   * @throws {Error} If match not found, already concluded, queued as unresolved or being changed by another request
+   */
+  async endMatch(matchId: string, winner?: FighterColor): Promise<Match> {
+    logger.info(`Ending match ${logger.cyan(matchId)}`);
+    const resolvedMatch = await this.withMatchLock(matchId, () =>
+      this.settleMatch(matchId, winner)
+    );
+    if (!resolvedMatch) {
+      throw new Error(
+        "No Salty Boy result could be matched to this match, so it was added to the unresolved queue. " +
+          "Please provide a winner or a Salty Boy match ID to resolve it"
+      );
+    }
+    return resolvedMatch;
+  }
+
+  /**
+   * Resolves a match from a Salty Boy record chosen by an admin, typically to
+   * clear it from the unresolved queue.
+   *
+   * @param {string} matchId - The ID of the match to resolve
+   * @param {number} externalId - The Salty Boy match ID holding its result
+   * @returns {Promise<Match>} The resolved match
+   * @throws {Error} If the record is not between the match's fighters or already belongs to another match
+   */
+  async resolveMatchFromSaltyBoy(
+    matchId: string,
+    externalId: number
+  ): Promise<Match> {
+    return this.withMatchLock(matchId, () =>
+      this.resolveFromSaltyBoyRecord(matchId, externalId)
+    );
+  }
+
+  /**
+   * Does the work of resolveMatchFromSaltyBoy while holding the match's lock.
+   *
+   * @param {string} matchId - The ID of the match to resolve
+   * @param {number} externalId - The Salty Boy match ID holding its result
+   * @returns {Promise<Match>} The resolved match
+   */
+  private async resolveFromSaltyBoyRecord(
+    matchId: string,
+    externalId: number
+  ): Promise<Match> {
+    logger.info(
+      `Resolving match ${logger.cyan(matchId)} from Salty Boy match ${logger.cyan(externalId)}`
+    );
+    const match = await this.lockForSettlement(matchId);
+    const saltyBoyMatch = await this.saltyBoyService.getMatchById(externalId.toString());
+    if (!this.matchCorrelationService.isSamePair(match, saltyBoyMatch)) {
+      logger.warn(
+        `Salty Boy match ${logger.cyan(externalId)} is not between the fighters of match ${logger.cyan(matchId)}`
+      );
+      throw new Error("That Salty Boy match is not between this match's fighters");
+    }
+    const claimed = await this.matchCorrelationService.getClaimedIds(matchId, [externalId]);
+    if (claimed.has(externalId)) {
+      logger.warn(`Salty Boy match ${logger.cyan(externalId)} already settled another match`);
+      throw new Error("That Salty Boy match has already settled another match");
+    }
+    return this.resolveMatch(
+      matchId,
+      this.getWinnerColor(match, saltyBoyMatch.winner),
+      { externalId, confidence: 1 }
+    );
+  }
+
+  /**
+   * Retries every match in the unresolved queue that Salty Boy may have
+   * recorded by now, resolving those with a confident result.
+   *
+   * @returns {Promise<number>} How many matches were resolved
+   */
+  async retryUnresolvedMatches(): Promise<number> {
+    const queued = await this.getUnresolvedMatches();
+    let resolved = 0;
+    for (const match of queued.filter((queuedMatch) => this.hasSaltyBoyResult(queuedMatch))) {
+      try {
+        if (await this.withMatchLock(match.id, () => this.settleMatch(match.id))) resolved++;
+      } catch (error) {
+        logger.warn(
+          `Failed to retry unresolved match ${logger.cyan(match.id)}: ${logger.red(error instanceof Error ? error.message : error)}`
+        );
+      }
+    }
+    if (resolved > 0) {
+      logger.success(`Resolved ${logger.cyan(resolved)} matches from the unresolved queue`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Lists the matches waiting in the unresolved queue, oldest first.
+   *
+   * @returns {Promise<Match[]>} The unresolved matches
+   */
+  async getUnresolvedMatches(): Promise<Match[]> {
+    return this.matchRepository.find({
+      where: { status: MatchStatus.LOCKED, unresolvedReason: Not(IsNull()) },
+      order: { createdAt: "ASC" },
+    });
+  }
+
+  /**
+   * Loads a match that is about to be settled, finalizing its bets first if
+   * it is still OPEN so no wager is left behind in Redis.
+   *
+   * @param {string} matchId - The ID of the match
+   * @returns {Promise<Match>} The match, now LOCKED
+   * @throws {Error} If match not found or already concluded
+   */
+  private async lockForSettlement(matchId: string): Promise<Match> {
+    const match = await this.matchRepository.findOne({
+      where: { id: matchId },
+    });
+    if (!match) {
+      logger.error(`Match ${logger.cyan(matchId)} not found`);
+      throw new Error("Match not found");
+    }
+
+    if (
+      match.status === MatchStatus.RESOLVED ||
+      match.status === MatchStatus.VOIDED
+    ) {
+      logger.warn(`Match ${logger.cyan(matchId)} has already been concluded`);
+      throw new Error("Match has already been concluded");
+    }
+
+    if (match.status === MatchStatus.OPEN) {
+      logger.info(
+        `Match ${logger.cyan(matchId)} is still open, finalizing bets before ending it`
+      );
+      await this.betService.finalizeBets(matchId);
+      // Only once finalized, so a failure leaves the deadline to the worker
+      await this.betService.cancelFinalization(matchId);
+      match.status = MatchStatus.LOCKED;
+    }
+    return match;
+  }
+
+  /**
+   * Settles a match from its Salty Boy result, falling back to the manual
+   * winner. Without either, the match is put in the unresolved queue.
+   *
+   * @param {string} matchId - The ID of the match to settle
+   * @param {FighterColor} [winner] - Manual winner
+   * @returns {Promise<Match | null>} The resolved match, or null if it was queued
+   */
+  private async settleMatch(
+    matchId: string,
+    winner?: FighterColor
+  ): Promise<Match | null> {
+    const match = await this.lockForSettlement(matchId);
+
+    // Salty Boy has no result to look up, so the winner must be given
+    if (!this.hasSaltyBoyResult(match)) {
+      if (winner) return this.resolveMatch(matchId, winner);
+      await this.queueUnresolved(match, "Salty Boy does not record results for this match");
+      return null;
+    }
+
+    let correlation: MatchCorrelation | null = null;
+    let reason = "No Salty Boy match found for this fight yet";
+    try {
+      correlation = await this.matchCorrelationService.correlate(match);
+    } catch (error) {
+      reason = `Salty Boy could not be searched: ${error instanceof Error ? error.message : error}`;
+    }
+
+    if (correlation && correlation.confidence >= this.matchCorrelationService.MIN_CONFIDENCE) {
+      logger.debug(
+        `Matched ${logger.cyan(matchId)} to Salty Boy match ${logger.cyan(correlation.saltyBoyMatch.id)}`
+      );
+      return this.resolveMatch(
+        matchId,
+        this.getWinnerColor(match, correlation.saltyBoyMatch.winner),
+        { externalId: correlation.saltyBoyMatch.id, confidence: correlation.confidence }
+      );
+    }
+    if (correlation) {
+      reason = `Best Salty Boy match ${correlation.saltyBoyMatch.id} has low confidence (${correlation.confidence})`;
+    }
+
+    if (winner) {
+      logger.warn(
+        `${reason} for match ${logger.cyan(matchId)}. Using manually specified winner`
+      );
+      return this.resolveMatch(matchId, winner);
+    }
+    await this.queueUnresolved(match, reason);
+    return null;
+  }
+
+  /**
+   * Puts a LOCKED match in the unresolved queue, or updates why it is there.
+   *
+   * @param {Match} match - The match
+   * @param {string} reason - Why it could not be settled
+   * @returns {Promise<void>}
+   */
+  private async queueUnresolved(match: Match, reason: string): Promise<void> {
+    logger.warn(
+      `Match ${logger.cyan(match.id)} added to the unresolved queue: ${logger.red(reason)}`
+    );
+    await this.matchRepository.update(match.id, { unresolvedReason: reason });
+  }
+
+  /**
+   * Sets the winner of a LOCKED match (LOCKED -> RESOLVED) and pays out in
+   * the same transaction, so a match is never resolved without its payouts.
+   *
+   * @param {string} matchId - The ID of the match
+   * @param {FighterColor} winnerColor - The winner
+   * @param {object} [source] - The Salty Boy match ID the result came from and how sure we are of it
+   * @returns {Promise<Match>} The resolved match
+   */
+  private async resolveMatch(
+    matchId: string,
+    winnerColor: FighterColor,
+    source?: { externalId: number; confidence: number }
+  ): Promise<Match> {
+    const resolvedMatch = await AppDataSource.transaction(async (manager) => {
+      const lockedMatch = await this.matchLifecycleService.transition(
+        manager,
+        matchId,
+        MatchStatus.RESOLVED
+      );
+      lockedMatch.winner = winnerColor;
+      lockedMatch.externalId = source?.externalId ?? null;
+      lockedMatch.correlationConfidence = source?.confidence ?? null;
+      lockedMatch.unresolvedReason = null;
+
+      logger.debug(`Processing payouts for match ${logger.cyan(matchId)}`);
+      const periodChanges = await this.payoutService.distributePayouts(
+        manager,
+        matchId,
+        winnerColor
+      );
+      return this.savePendingPeriodStats(manager, lockedMatch, periodChanges);
+    });
+    logger.success(
+      `Match ${logger.cyan(matchId)} ended with winner: ${logger.cyan(
+        winnerColor
+      )}`
+    );
+
+    await this.applyPeriodStats(matchId);
+    logger.success(`Payouts processed for match ${logger.cyan(matchId)}`);
+
+    await this.publishResolved(resolvedMatch);
+    return resolvedMatch;
+  }
+
+  /**
+   * Saves a match along with the period stat changes of settling it, inside
+   * the settlement's transaction. They reach Redis after commit (see
+   * applyPeriodStats), so the record of what is owed commits with the payouts.
+   *
+   * @param {EntityManager} manager - The transaction's entity manager
+   * @param {Match} match - The match being settled, loaded through `manager`
+   * @param {PeriodStatsChange[]} changes - The period stat changes
+   * @returns {Promise<Match>} The saved match
+   */
+  private async savePendingPeriodStats(
+    manager: EntityManager,
+    match: Match,
+    changes: PeriodStatsChange[]
+  ): Promise<Match> {
+    if (changes.length > 0) {
+      // Appended: batches from an earlier settlement may still be waiting
+      match.pendingPeriodStats = [
+        ...(match.pendingPeriodStats ?? []),
+        { id: randomUUID(), changes },
+      ];
+    }
+    return manager.save(match);
+  }
+
+  /**
+   * Applies a settled match's pending period stat changes to Redis.
+   * Only logged on failure: the match is already paid out, and the changes
+   * stay pending for the period stats worker to retry.
+   *
+   * @param {string} matchId - The settled match
+   * @returns {Promise<void>}
+   */
+  private async applyPeriodStats(matchId: string): Promise<void> {
+    try {
+      await this.flushPendingPeriodStats(matchId);
+    } catch (error) {
+      logger.error(
+        `Failed to update period stats for match ${logger.cyan(matchId)}, will retry:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Applies every pending period stat batch of a match, then removes the
+   * applied batches from it. Batches are idempotent, so one applied just
+   * before a crash is skipped when retried.
+   *
+   * @param {string} matchId - The match
+   * @returns {Promise<void>}
+   * @throws {Error} If Redis rejected a batch; it stays pending
+   */
+  private async flushPendingPeriodStats(matchId: string): Promise<void> {
+    const match = await this.matchRepository.findOne({
+      where: { id: matchId },
+      select: { id: true, pendingPeriodStats: true },
+    });
+    const batches = match?.pendingPeriodStats ?? [];
+    if (batches.length === 0) return;
+
+    for (const batch of batches) {
+      await this.periodStatsService.applyBatch(batch);
+    }
+
+    // Only drop what was applied; a correction may have queued more since
+    const applied = new Set(batches.map((batch) => batch.id));
+    await AppDataSource.transaction(async (manager) => {
+      const lockedMatch = await manager.findOne(Match, {
+        where: { id: matchId },
+        lock: { mode: "pessimistic_write" },
+      });
+      if (!lockedMatch) return;
+      const remaining = (lockedMatch.pendingPeriodStats ?? []).filter(
+        (batch) => !applied.has(batch.id)
+      );
+      lockedMatch.pendingPeriodStats = remaining.length > 0 ? remaining : null;
+      await manager.save(lockedMatch);
+    });
+    logger.debug(
+      `Applied ${logger.cyan(batches.length)} period stat batches for match ${logger.cyan(matchId)}`
+    );
+  }
+
+  /**
+   * Retries the period stat changes of every match that still has some
+   * pending, e.g. because Redis was down when the match was settled.
+   *
+   * @returns {Promise<number>} The number of matches whose changes were applied
+   */
+  async retryPendingPeriodStats(): Promise<number> {
+    const matches = await this.matchRepository.find({
+      where: { pendingPeriodStats: Not(IsNull()) },
+      select: { id: true },
+    });
+    let applied = 0;
+    for (const match of matches) {
+      try {
+        await this.flushPendingPeriodStats(match.id);
+        applied++;
+      } catch (error) {
+        logger.error(
+          `Failed to retry period stats for match ${logger.cyan(match.id)}: ${logger.red(error instanceof Error ? error.message : error)}`
+        );
+      }
+    }
+    return applied;
+  }
+
+  /**
+   * Starts retrying pending period stat changes in the background. Changes
+   * left pending while the server was down are picked up on the first tick.
+   */
+  startPeriodStatsWorker(): void {
+    if (this.periodStatsWorker) return;
+    let running = false;
+    const tick = async () => {
+      // Never overlap ticks
+      if (running) return;
+      running = true;
+      try {
+        await this.retryPendingPeriodStats();
+      } catch (error) {
+        logger.error(
+          `Period stats worker tick failed: ${logger.red(error instanceof Error ? error.message : error)}`
+        );
+      } finally {
+        running = false;
+      }
+    };
+    void tick();
+    this.periodStatsWorker = setInterval(tick, this.PERIOD_STATS_RETRY_MS);
+  }
+
+  /**
+   * Stops the period stats worker. Pending changes stay on their matches.
+   */
+  stopPeriodStatsWorker(): void {
+    if (this.periodStatsWorker) {
+      clearInterval(this.periodStatsWorker);
+      this.periodStatsWorker = null;
+    }
+  }
+
+  /**
+   * Announces a match's result to subscribers along with its settlement.
+   * Only logged on failure: the match is already paid out.
+   *
+   * @param {Match} match - The resolved match
+   * @returns {Promise<void>}
+   */
+  private async publishResolved(match: Match): Promise<void> {
+    try {
+      const settlement = await this.payoutService.getSettlement(match.id);
+      this.pubSubService.publish(SubscriptionKeys.MatchResolved, {
+        match,
+        winner: match.winner!,
+        settlement,
+      });
+    } catch (error) {
+      logger.error(`Failed to announce result of match ${logger.cyan(match.id)}:`, error);
+    }
+  }
+
+  /**
+   * Corrects the winner of a resolved match, reversing the original payouts
+   * and stats and re-running payouts in one transaction.
+   *
+   * @param {string} matchId - The ID of the match to correct
+   * @param {FighterColor} winner - The correct winner
+   * @returns {Promise<Match>} The corrected match
+   * @throws {Error} If match not found, not resolved, or already has this winner
+   */
+  async correctMatchWinner(
+    matchId: string,
+    winner: FighterColor
+  ): Promise<Match> {
+    return this.withMatchLock(matchId, () => this.applyWinnerCorrection(matchId, winner));
+  }
+
+  /**
+   * Does the work of correctMatchWinner while holding the match's lock.
+   *
+   * @param {string} matchId - The ID of the match to correct
+   * @param {FighterColor} winner - The correct winner
+   * @returns {Promise<Match>} The corrected match
+   */
+  private async applyWinnerCorrection(
+    matchId: string,
+    winner: FighterColor
+  ): Promise<Match> {
+    logger.info(
+      `Correcting winner of match ${logger.cyan(matchId)} to ${logger.cyan(winner)}`
+    );
+
+    const match = await AppDataSource.transaction(
+      async (manager) => {
+        const match = await manager.findOne(Match, {
+          where: { id: matchId },
+          lock: { mode: "pessimistic_write" },
+        });
+        if (!match) {
+          logger.error(`Match ${logger.cyan(matchId)} not found`);
+          throw new Error("Match not found");
+        }
+        if (match.status !== MatchStatus.RESOLVED || !match.winner) {
+          logger.warn(`Match ${logger.cyan(matchId)} is ${logger.cyan(match.status)}, cannot correct winner`);
+          throw new Error("Only resolved matches can have their winner corrected");
+        }
+        if (match.winner === winner) {
+          logger.warn(`Match ${logger.cyan(matchId)} already has winner ${logger.cyan(winner)}`);
+          throw new Error("Match already has this winner");
+        }
+
+        const previousWinner = match.winner;
+        const reversed = await this.payoutService.reversePayouts(
+          manager,
+          matchId,
+          previousWinner
+        );
+        const distributed = await this.payoutService.distributePayouts(
+          manager,
+          matchId,
+          winner
+        );
+
+        match.winner = winner;
+        // The Salty Boy record the old winner came from no longer describes it
+        match.externalId = null;
+        match.correlationConfidence = null;
+        const corrected = await this.savePendingPeriodStats(manager, match, [
+          ...reversed,
+          ...distributed,
+        ]);
+        logger.debug(
+          `Winner of match ${logger.cyan(matchId)} changed from ${logger.cyan(previousWinner)} to ${logger.cyan(winner)}`
+        );
+        return corrected;
+      }
+    );
+
+    await this.applyPeriodStats(matchId);
+    logger.success(
+      `Corrected winner of match ${logger.cyan(matchId)} to ${logger.cyan(winner)}`
+    );
+
+    // Subscribers see the corrected result like any other
+    await this.publishResolved(match);
+    return match;
+  }
+
+  /**
+   * Voids an OPEN or LOCKED match, refunding finalized bets and discarding
+   * in-flight wagers. Win/loss stats are not touched.
+   *
+   * @param {string} matchId - The ID of the match to void
+   * @param {string} reason - Why the match is being voided
+   * @returns {Promise<Match>} The voided match
+   * @throws {Error} If match not found, already resolved/voided or being changed by another request
+   */
+  async voidMatch(matchId: string, reason: string): Promise<Match> {
+    // The finalize lock too: voiding while bets are being persisted would
+    // refund stakes whose Redis reservations are then released a second time
+    return this.withMatchLock(matchId, () =>
+      this.betService.withFinalizationLock(matchId, () =>
+        this.voidOpenMatch(matchId, reason)
+      )
+    );
+  }
+
+  /**
+   * Does the work of voidMatch while holding the match's lock and its
+   * finalize lock.
+   *
+   * @param {string} matchId - The ID of the match to void
+   * @param {string} reason - Why the match is being voided
+   * @returns {Promise<Match>} The voided match
+   */
+  private async voidOpenMatch(matchId: string, reason: string): Promise<Match> {
+    logger.info(
+      `Voiding match ${logger.cyan(matchId)} (reason: ${logger.cyan(reason)})`
+    );
+
+    // Stop new wagers before touching the match
+    await this.betService.lockBetting(matchId);
+
+    let voidedMatch: Match;
+    try {
+      voidedMatch = await AppDataSource.transaction(async (manager) => {
+        const match = await this.matchLifecycleService.transition(
+          manager,
+          matchId,
+          MatchStatus.VOIDED
+        );
+        match.voidReason = reason;
+        await manager.save(match);
+
+        const refunded = await this.payoutService.refundBets(
+          manager,
+          matchId,
+          `Match voided: ${reason}`
+        );
+        logger.debug(
+          `Refunded ${logger.cyan(refunded)} finalized bets for match ${logger.cyan(matchId)}`
+        );
+        return match;
+      });
+    } catch (error) {
+      await this.betService.unlockBettingIfOpen(matchId);
+      throw error;
+    }
+
+    // Only once voided, so a failure leaves the deadline to the worker
+    await this.betService.cancelFinalization(matchId);
+    const discarded = await this.betService.discardActiveBets(matchId);
+    logger.success(
+      `Match ${logger.cyan(matchId)} voided. Discarded ${logger.cyan(discarded)} in-flight bets`
+    );
+
+    this.pubSubService.publish(SubscriptionKeys.MatchVoided, voidedMatch);
+    return voidedMatch;
+  }
+}
@@ -0,0 +1,88 @@
+import { MatchSettingsDto } from "../dtos/MatchSettingsDto";
+import { MatchFormat } from "../types/MatchFormat";
+import { logger } from "../utils/logger";
+import { RedisService } from "./RedisService";
+
+/**
+ * MatchSettingsService - Admin-controlled settings for how new matches are
+ * run, stored in Redis so every server applies the same rules.
+ */
+export class MatchSettingsService {
+  private static instance: MatchSettingsService;
+  private redis = RedisService.getInstance();
+
+  // Every format is bettable by default. Salty Boy does not record
+  // exhibition results, so each bettable exhibition needs a manually entered
+  // winner; admins can turn exhibitions off if that is too much work
+  private readonly DEFAULT_BETTABLE_FORMATS = [
+    MatchFormat.MATCHMAKING,
+    MatchFormat.TOURNAMENT,
+    MatchFormat.EXHIBITION,
+  ];
+
+  public static getInstance(): MatchSettingsService {
+    if (!MatchSettingsService.instance) {
+      MatchSettingsService.instance = new MatchSettingsService();
+    }
+    return MatchSettingsService.instance;
+  }
+
+  // ============================================
+  // Redis Key Management
+  // ============================================
+
+  /**
+   * Holds the bettable formats as a JSON array. Stored as a string rather than
+   * a set so "no format is bettable" is distinguishable from "never configured".
+   */
+  private getBettableFormatsKey(): string {
+    return "settings:match:bettable-formats";
+  }
+
+  // ============================================
+  // Settings
+  // ============================================
+
+  /**
+   * Returns the current match settings.
+   * @returns {Promise<MatchSettingsDto>} The settings
+   */
+  async getSettings(): Promise<MatchSettingsDto> {
+    return { bettableFormats: await this.getBettableFormats() };
+  }
+
+  /**
+   * Returns the match formats that open for betting.
+   * @returns {Promise<MatchFormat[]>} The bettable formats
+   */
+  async getBettableFormats(): Promise<MatchFormat[]> {
+    const stored = await this.redis.getClient().get(this.getBettableFormatsKey());
+    if (!stored) return [...this.DEFAULT_BETTABLE_FORMATS];
+    return JSON.parse(stored) as MatchFormat[];
+  }
+
+  /**
+   * Checks whether matches in a format open for betting.
+   * @param {MatchFormat} format - The match format
+   * @returns {Promise<boolean>} True if the format is bettable
+   */
+  async isBettable(format: MatchFormat): Promise<boolean> {
+    return (await this.getBettableFormats()).includes(format);
+  }
+
+  /**
+   * Replaces the bettable formats. Applies to matches created from now on.
+   * @param {MatchFormat[]} formats - The formats that should open for betting
+   * @returns {Promise<MatchSettingsDto>} The updated settings
+   */
+  async setBettableFormats(formats: MatchFormat[]): Promise<MatchSettingsDto> {
+    const unique = [...new Set(formats)];
+    logger.info(
+      `Setting bettable match formats to ${logger.cyan(unique.join(", ") || "none")}`
+    );
+    await this.redis
+      .getClient()
+      .set(this.getBettableFormatsKey(), JSON.stringify(unique));
+    return this.getSettings();
+  }
+}
@@ -1,11 +1,19 @@
+import { EntityManager } from "typeorm";
 import { AppDataSource } from "../data-source";
 import { Bet } from "../entities/Bet";
-import { User } from "../entities/User";
+import { LedgerEntry } from "../entities/LedgerEntry";
+import { Match } from "../entities/Match";
+import { MatchSettlementDto } from "../dtos/MatchSettlementDto";
 import { FighterColor } from "../types/FighterColor";
+import { BetResult } from "../types/BetResult";
 import { logger } from "../utils/logger";
+import { LedgerService } from "./LedgerService";
+import { LedgerEntryType } from "../types/LedgerEntryType";
+import { PeriodStatsChange } from "../types/PeriodStats";
 
 export class PayoutService {
   private static instance: PayoutService;
+  private ledgerService = LedgerService.getInstance();
 
   public static getInstance(): PayoutService {
     if (!PayoutService.instance) {
@@ -19,87 +27,375 @@ export class PayoutService {
   // ============================================
 
   /**
-   * Calculates and distributes payouts for a match.
+   * Distributes payouts for a match inside the caller's transaction. All amounts are integer cents.
    * If there are no bets on the winning side, all users get their money back and no stats are updated.
+   * Each bet's result, payout and profit are stored on the bet.
+   * Period stats live in Redis, so the changes are returned for the caller to
+   * apply once the transaction has committed.
    *
+   * @param {EntityManager} manager - The transaction's entity manager
    * @param {string} matchId - The ID of the match
    * @param {FighterColor} winner - The winning fighter color
-   * @returns {Promise<void>}
+   * @returns {Promise<PeriodStatsChange[]>} Period stat changes to apply after commit
    */
-  async calculateAndDistributePayouts(
+  async distributePayouts(
+    manager: EntityManager,
     matchId: string,
     winner: FighterColor
-  ): Promise<void> {
-    await AppDataSource.transaction(async (manager) => {
-      // Get all bets for this match
-      const bets = await manager.find(Bet, {
-        where: { match: { id: matchId } },
-        relations: ["user"],
+  ): Promise<PeriodStatsChange[]> {
+    const periodChanges: PeriodStatsChange[] = [];
+
+    // Get all bets for this match
+    const bets = await manager.find(Bet, {
+      where: { match: { id: matchId } },
+      relations: ["user"],
+    });
+
+    // Separate winning and losing bets
+    const winningBets = bets.filter((bet) => bet.fighterColor === winner);
+    const losingBets = bets.filter((bet) => bet.fighterColor !== winner);
+
+    // Calculate total pools
+    const winningPool = winningBets.reduce((sum, bet) => sum + bet.amount, 0);
+    const losingPool = losingBets.reduce((sum, bet) => sum + bet.amount, 0);
+
+    // If no winning bets, return all money to everyone and do not update stats
+    if (winningBets.length === 0) {
+      logger.info(
+        `No bets on winning side (${logger.cyan(winner)}) for match ${logger.cyan(matchId)}. Refunding all bets.`
+      );
+      await this.refundBets(manager, matchId, "No bets on the winning side");
+      return periodChanges;
+    }
+
+    const users = await this.ledgerService.lockUsers(
+      manager,
+      bets.map((bet) => bet.user.id)
+    );
+
+    // Calculate and distribute payouts to winners
+    const shares = this.splitLosingPool(winningBets, winningPool, losingPool);
+    for (const bet of winningBets) {
+      const user = users.get(bet.user.id);
+      if (!user) continue;
+
+      const shareOfLosingPool = shares.get(bet.id) ?? 0;
+      const totalPayout = bet.amount + shareOfLosingPool;
+
+      // Update user's stats and credit the payout to their balance
+      user.totalWins += 1;
+      user.totalRevenueGained += shareOfLosingPool;
+      await this.ledgerService.record(
+        manager,
+        user,
+        totalPayout,
+        LedgerEntryType.PAYOUT_CREDIT,
+        { matchId, bet }
+      );
+      await this.recordOutcome(manager, bet, BetResult.WON, totalPayout);
+      periodChanges.push({
+        userId: user.id,
+        wins: 1,
+        revenueGained: shareOfLosingPool,
       });
+      logger.debug(
+        `Paid out ${logger.cyan(totalPayout)} to winner ${logger.cyan(user.id)} (bet: ${logger.cyan(bet.amount)}) for match ${logger.cyan(matchId)}`
+      );
+    }
 
-      // Separate winning and losing bets
-      const winningBets = bets.filter((bet) => bet.fighterColor === winner);
-      const losingBets = bets.filter((bet) => bet.fighterColor !== winner);
+    // Update stats for losers
+    for (const bet of losingBets) {
+      const user = users.get(bet.user.id);
+      if (!user) continue;
 
-      // Calculate total pools
-      const winningPool = winningBets.reduce((sum, bet) => sum + bet.amount, 0);
-      const losingPool = losingBets.reduce((sum, bet) => sum + bet.amount, 0);
+      user.totalLosses += 1;
+      user.totalRevenueLost += bet.amount;
+      await manager.save(user);
+      await this.recordOutcome(manager, bet, BetResult.LOST, 0);
+      periodChanges.push({
+        userId: user.id,
+        losses: 1,
+        revenueLost: bet.amount,
+      });
+      logger.debug(
+        `Updated loss stats for user ${logger.cyan(user.id)} (lost: ${logger.cyan(bet.amount)}) for match ${logger.cyan(matchId)}`
+      );
+    }
 
-      // If no winning bets, return all money to everyone and do not update stats
-      if (winningBets.length === 0) {
-        logger.info(
-          `No bets on winning side (${logger.cyan(winner)}) for match ${logger.cyan(matchId)}. Refunding all bets.`
-        );
-        for (const bet of bets) {
-          const user = await manager.findOne(User, {
-            where: { id: bet.user.id },
-          });
-          if (user) {
-            user.balance += bet.amount;
-            await manager.save(user);
-            logger.debug(
-              `Refunded ${logger.cyan(bet.amount)} to user ${logger.cyan(user.id)} for match ${logger.cyan(matchId)}`
-            );
-          }
-        }
-        return;
-      }
+    return periodChanges;
+  }
 
-      // Calculate and distribute payouts to winners
-      for (const bet of winningBets) {
-        const user = await manager.findOne(User, {
-          where: { id: bet.user.id },
-        });
-        if (!user) continue;
+  /**
+   * Stores how a bet was settled on the bet itself.
+   *
+   * @param {EntityManager} manager - The transaction's entity manager
+   * @param {Bet} bet - The settled bet
+   * @param {BetResult} result - How it turned out
+   * @param {number} payout - Cents paid back for it
+   * @returns {Promise<void>}
+   */
+  private async recordOutcome(
+    manager: EntityManager,
+    bet: Bet,
+    result: BetResult,
+    payout: number
+  ): Promise<void> {
+    await manager.update(Bet, bet.id, {
+      result,
+      payout,
+      profit: payout - bet.amount,
+      settledAt: new Date(),
+    });
+  }
 
-        // Calculate share of losing pool
-        const shareOfLosingPool = (bet.amount / winningPool) * losingPool;
-        const totalPayout = bet.amount + shareOfLosingPool;
+  /**
+   * Clears a bet's stored outcome after its payout was reversed.
+   *
+   * @param {EntityManager} manager - The transaction's entity manager
+   * @param {Bet} bet - The bet
+   * @returns {Promise<void>}
+   */
+  private async clearOutcome(manager: EntityManager, bet: Bet): Promise<void> {
+    await manager.update(Bet, bet.id, {
+      result: null,
+      payout: null,
+      profit: null,
+      settledAt: null,
+    });
+  }
 
-        // Update user's balance and stats
-        user.balance += totalPayout;
-        user.totalWins += 1;
-        user.totalRevenueGained += shareOfLosingPool;
-        await manager.save(user);
-        logger.debug(
-          `Paid out ${logger.cyan(totalPayout)} to winner ${logger.cyan(user.id)} (bet: ${logger.cyan(bet.amount)}) for match ${logger.cyan(matchId)}`
-        );
-      }
+  /**
+   * Splits the losing pool between winning bets in whole cents.
+   * Each bet gets the floor of its proportional share; the cents left over are
+   * handed out one at a time to the bets with the largest fractional remainder,
+   * ties going to the earliest bet (then lowest id). The shares always sum to
+   * exactly the losing pool.
+   *
+   * @param {Bet[]} winningBets - The bets on the winning side
+   * @param {number} winningPool - Total staked on the winning side in cents
+   * @param {number} losingPool - Total staked on the losing side in cents
+   * @returns {Map<string, number>} Share of the losing pool in cents, keyed by bet ID
+   */
+  private splitLosingPool(
+    winningBets: Bet[],
+    winningPool: number,
+    losingPool: number
+  ): Map<string, number> {
+    const shares = new Map<string, number>();
+    if (winningPool === 0) return shares;
+
+    // Integer arithmetic only: share = floor(amount * losingPool / winningPool)
+    const remainders = winningBets.map((bet) => {
+      const numerator = bet.amount * losingPool;
+      shares.set(bet.id, Math.floor(numerator / winningPool));
+      return { bet, remainder: numerator % winningPool };
+    });
+
+    let leftover =
+      losingPool - Array.from(shares.values()).reduce((sum, share) => sum + share, 0);
+    remainders.sort(
+      (a, b) =>
+        b.remainder - a.remainder ||
+        a.bet.createdAt.getTime() - b.bet.createdAt.getTime() ||
+        a.bet.id.localeCompare(b.bet.id)
+    );
+    for (const { bet } of remainders) {
+      if (leftover <= 0) break;
+      shares.set(bet.id, shares.get(bet.id)! + 1);
+      leftover -= 1;
+    }
+
+    return shares;
+  }
+
+  // ============================================
+  // Settlement Summary
+  // ============================================
 
-      // Update stats for losers
-      for (const bet of losingBets) {
-        const user = await manager.findOne(User, {
-          where: { id: bet.user.id },
+  /**
+   * Summarizes how a match was settled: the pools and every bettor's receipt.
+   *
+   * @param {string} matchId - The ID of the match
+   * @returns {Promise<MatchSettlementDto>} The settlement summary
+   * @throws {Error} If the match does not exist
+   */
+  async getSettlement(matchId: string): Promise<MatchSettlementDto> {
+    const match = await AppDataSource.getRepository(Match).findOne({
+      where: { id: matchId },
+    });
+    if (!match) {
+      logger.error(`Match ${logger.cyan(matchId)} not found`);
+      throw new Error("Match not found");
+    }
+
+    const bets = await AppDataSource.getRepository(Bet).find({
+      where: { match: { id: matchId } },
+      relations: ["user"],
+      order: { createdAt: "ASC" },
+    });
+    const poolFor = (color: FighterColor) =>
+      bets
+        .filter((bet) => bet.fighterColor === color)
+        .reduce((sum, bet) => sum + bet.amount, 0);
+    const settledTimes = bets
+      .map((bet) => bet.settledAt?.getTime())
+      .filter((time): time is number => time !== undefined);
+
+    return {
+      matchId,
+      status: match.status,
+      winner: match.winner,
+      redPool: poolFor(FighterColor.RED),
+      bluePool: poolFor(FighterColor.BLUE),
+      totalPaidOut: bets.reduce((sum, bet) => sum + (bet.payout ?? 0), 0),
+      settledAt: settledTimes.length > 0 ? new Date(Math.max(...settledTimes)) : null,
+      receipts: bets
+        .map((bet) => ({
+          betId: bet.id,
+          userId: bet.user.id,
+          alias: bet.user.alias,
+          side: bet.fighterColor,
+          amount: bet.amount,
+          result: bet.result ?? null,
+          payout: bet.payout ?? null,
+          profit: bet.profit ?? null,
+        }))
+        .sort((a, b) => (b.payout ?? 0) - (a.payout ?? 0)),
+    };
+  }
+
+  // ============================================
+  // Reversal Logic
+  // ============================================
+
+  /**
+   * Undoes the payouts previously distributed for a match inside the caller's
+   * transaction: every credit (payout or no-winner refund) is debited back via
+   * a PAYOUT_REVERSAL ledger entry and the win/loss stats recorded for the
+   * previous winner are rolled back.
+   *
+   * @param {EntityManager} manager - The transaction's entity manager
+   * @param {string} matchId - The ID of the match
+   * @param {FighterColor} previousWinner - The winner the payouts were made for
+   * @returns {Promise<PeriodStatsChange[]>} Period stat changes to apply after commit
+   */
+  async reversePayouts(
+    manager: EntityManager,
+    matchId: string,
+    previousWinner: FighterColor
+  ): Promise<PeriodStatsChange[]> {
+    const periodChanges: PeriodStatsChange[] = [];
+
+    const bets = await manager.find(Bet, {
+      where: { match: { id: matchId } },
+      relations: ["user"],
+    });
+    const users = await this.ledgerService.lockUsers(
+      manager,
+      bets.map((bet) => bet.user.id)
+    );
+    const hadWinners = bets.some((bet) => bet.fighterColor === previousWinner);
+
+    // Net amount credited per bet (payouts and refunds minus earlier reversals)
+    const entries = await manager.find(LedgerEntry, {
+      where: { match: { id: matchId } },
+      relations: ["bet"],
+    });
+    const creditedByBet = new Map<string, number>();
+    for (const entry of entries) {
+      if (!entry.bet || entry.type === LedgerEntryType.BET_DEBIT) continue;
+      creditedByBet.set(
+        entry.bet.id,
+        (creditedByBet.get(entry.bet.id) ?? 0) + entry.amount
+      );
+    }
+
+    for (const bet of bets) {
+      const user = users.get(bet.user.id);
+      if (!user) continue;
+
+      const stake = bet.amount;
+      const credited = creditedByBet.get(bet.id) ?? 0;
+
+      // Roll back the stats recorded when the match was settled
+      if (hadWinners && bet.fighterColor === previousWinner) {
+        user.totalWins -= 1;
+        user.totalRevenueGained -= credited - stake;
+        periodChanges.push({
+          userId: user.id,
+          wins: -1,
+          revenueGained: -(credited - stake),
         });
-        if (!user) continue;
+      } else if (hadWinners) {
+        user.totalLosses -= 1;
+        user.totalRevenueLost -= stake;
+        periodChanges.push({ userId: user.id, losses: -1, revenueLost: -stake });
+      }
 
-        user.totalLosses += 1;
-        user.totalRevenueLost += bet.amount;
-        await manager.save(user);
-        logger.debug(
-          `Updated loss stats for user ${logger.cyan(user.id)} (lost: ${logger.cyan(bet.amount)}) for match ${logger.cyan(matchId)}`
+      if (credited !== 0) {
+        await this.ledgerService.record(
+          manager,
+          user,
+          -credited,
+          LedgerEntryType.PAYOUT_REVERSAL,
+          { matchId, bet, description: `Reversed payout for ${previousWinner}` }
         );
+      } else {
+        await manager.save(user);
       }
+      await this.clearOutcome(manager, bet);
+      logger.debug(
+        `Reversed ${logger.cyan(credited)} for user ${logger.cyan(user.id)} (bet: ${logger.cyan(bet.amount)}) for match ${logger.cyan(matchId)}`
+      );
+    }
+
+    return periodChanges;
+  }
+
+  // ============================================
+  // Refund Logic
+  // ============================================
+
+  /**
+   * Returns the stake of every finalized bet on a match to its bettor.
+   * Win/loss stats are left untouched.
+   *
+   * @param {EntityManager} manager - The transaction's entity manager
+   * @param {string} matchId - The ID of the match
+   * @param {string} description - Reason stored on each ledger entry
+   * @returns {Promise<number>} The number of bets refunded
+   */
+  async refundBets(
+    manager: EntityManager,
+    matchId: string,
+    description: string
+  ): Promise<number> {
+    const bets = await manager.find(Bet, {
+      where: { match: { id: matchId } },
+      relations: ["user"],
     });
+    const users = await this.ledgerService.lockUsers(
+      manager,
+      bets.map((bet) => bet.user.id)
+    );
+
+    for (const bet of bets) {
+      const user = users.get(bet.user.id);
+      if (!user) continue;
+
+      await this.ledgerService.record(
+        manager,
+        user,
+        bet.amount,
+        LedgerEntryType.REFUND,
+        { matchId, bet, description }
+      );
+      await this.recordOutcome(manager, bet, BetResult.REFUNDED, bet.amount);
+      logger.debug(
+        `Refunded ${logger.cyan(bet.amount)} to user ${logger.cyan(user.id)} for match ${logger.cyan(matchId)}`
+      );
+    }
+
+    return bets.length;
   }
 }
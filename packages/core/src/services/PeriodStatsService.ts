@@ -1,12 +1,28 @@
+import { readFileSync } from "fs";
+import { join } from "path";
 import { RedisService } from "./RedisService";
 import { PeriodStatsDto } from "../dtos/PeriodStatsDto";
+import { PeriodStatsBatch } from "../types/PeriodStats";
+import { logger } from "../utils/logger";
 
 export class PeriodStatsService {
   private static instance: PeriodStatsService;
   private redis: RedisService;
+  private convertRevenueScript: string;
+  private applyStatsScript: string;
+
+  private readonly APPLIED_BATCH_TTL_SECONDS = 604800; // 7 days
 
   private constructor() {
     this.redis = RedisService.getInstance();
+    this.convertRevenueScript = readFileSync(
+      join(__dirname, "../scripts/redis/convert_period_revenue.lua"),
+      "utf8"
+    );
+    this.applyStatsScript = readFileSync(
+      join(__dirname, "../scripts/redis/apply_period_stats.lua"),
+      "utf8"
+    );
   }
 
   public static getInstance(): PeriodStatsService {
@@ -20,36 +36,69 @@ export class PeriodStatsService {
     return `period:${userId}:${stat}`;
   }
 
-  public async incrementWins(
-    userId: string,
-    amount: number = 1
-  ): Promise<void> {
-    await this.redis.getClient().incrby(this.getKey(userId, "wins"), amount);
-  }
-
-  public async incrementLosses(
-    userId: string,
-    amount: number = 1
-  ): Promise<void> {
-    await this.redis.getClient().incrby(this.getKey(userId, "losses"), amount);
-  }
+  /**
+   * Applies a batch of stat changes atomically. A batch that was already
+   * applied is skipped, so a failed batch can safely be retried.
+   * @param batch - The batch to apply
+   * @returns Promise<boolean> - False if the batch had already been applied
+   * @throws {Error} If Redis rejected the batch; nothing in it was applied
+   */
+  public async applyBatch(batch: PeriodStatsBatch): Promise<boolean> {
+    const keys: string[] = [];
+    const amounts: string[] = [];
+    const add = (userId: string, stat: string, amount?: number) => {
+      if (!amount) return;
+      keys.push(this.getKey(userId, stat));
+      amounts.push(amount.toString());
+    };
+    for (const change of batch.changes) {
+      add(change.userId, "wins", change.wins);
+      add(change.userId, "losses", change.losses);
+      add(change.userId, "revenueGainedCents", change.revenueGained);
+      add(change.userId, "revenueLostCents", change.revenueLost);
+    }
+    if (keys.length === 0) return true;
 
-  public async incrementRevenueGained(
-    userId: string,
-    amount: number
-  ): Promise<void> {
-    await this.redis
+    const applied = await this.redis
       .getClient()
-      .incrbyfloat(this.getKey(userId, "revenueGained"), amount);
+      .eval(
+        this.applyStatsScript,
+        keys.length + 1,
+        `period:applied:${batch.id}`,
+        ...keys,
+        this.APPLIED_BATCH_TTL_SECONDS.toString(),
+        ...amounts
+      );
+    return applied === 1;
   }
 
-  public async incrementRevenueLost(
-    userId: string,
-    amount: number
-  ): Promise<void> {
-    await this.redis
-      .getClient()
-      .incrbyfloat(this.getKey(userId, "revenueLost"), amount);
+  /**
+   * Converts revenue stats written in dollars (by INCRBYFLOAT, before money
+   * moved to integer cents) into the cents keys and deletes them. Safe to run
+   * on every start and on several servers at once.
+   * @returns {Promise<number>} The number of legacy keys converted
+   */
+  public async convertLegacyRevenue(): Promise<number> {
+    const client = this.redis.getClient();
+    let converted = 0;
+    for (const stat of ["revenueGained", "revenueLost"]) {
+      const stream = client.scanStream({ match: this.getKey("*", stat), count: 500 });
+      for await (const keys of stream) {
+        for (const legacyKey of keys as string[]) {
+          const result = await client.eval(
+            this.convertRevenueScript,
+            2,
+            legacyKey,
+            `${legacyKey}Cents`
+          );
+          if (result !== null) converted += 1;
+        }
+      }
+    }
+    if (converted > 0) {
+      logger.info(`Converted ${logger.cyan(converted)} legacy period revenue stats to cents`);
+    }
+    return converted;
   }
 
   public async getStats(userId: string): Promise<PeriodStatsDto> {
@@ -58,15 +107,15 @@ export class PeriodStatsService {
       .mget(
         this.getKey(userId, "wins"),
         this.getKey(userId, "losses"),
-        this.getKey(userId, "revenueGained"),
-        this.getKey(userId, "revenueLost")
+        this.getKey(userId, "revenueGainedCents"),
+        this.getKey(userId, "revenueLostCents")
       );
 
     const baseStats = {
       wins: parseInt(wins || "0"),
       losses: parseInt(losses || "0"),
-      revenueGained: parseFloat(revenueGained || "0"),
-      revenueLost: parseFloat(revenueLost || "0"),
+      revenueGained: parseInt(revenueGained || "0"),
+      revenueLost: parseInt(revenueLost || "0"),
     };
 
     // Calculate derived stats
@@ -86,8 +135,8 @@ export class PeriodStatsService {
     const keys = [
       this.getKey(userId, "wins"),
       this.getKey(userId, "losses"),
-      this.getKey(userId, "revenueGained"),
-      this.getKey(userId, "revenueLost"),
+      this.getKey(userId, "revenueGainedCents"),
+      this.getKey(userId, "revenueLostCents"),
     ];
 
     await this.redis.getClient().del(...keys);
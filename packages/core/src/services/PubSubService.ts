@@ -0,0 +1,78 @@
+import { createPubSub, PubSub } from "@graphql-yoga/subscription";
+import { createRedisEventTarget } from "@graphql-yoga/redis-event-target";
+import { Subscriptions } from "../types/Context";
+import { logger } from "../utils/logger";
+import { RedisService } from "./RedisService";
+
+/**
+ * Matches the ISO 8601 strings JSON.stringify produces for Dates
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * PubSubService - Owns the PubSub behind GraphQL subscriptions so services
+ * can publish lifecycle events outside of a request, e.g. from the match
+ * orchestrator or the bet finalization worker.
+ *
+ * Events travel over Redis pub/sub, so every server delivers them to its own
+ * subscribers no matter which server published them.
+ */
+export class PubSubService {
+  private static instance: PubSubService;
+  private pubSub: PubSub<Subscriptions>;
+
+  // Private constructor for singleton pattern
+  private constructor() {
+    const publishClient = RedisService.getInstance().getClient();
+    // A connection in subscriber mode can't run other commands
+    const subscribeClient = publishClient.duplicate();
+    this.pubSub = createPubSub<Subscriptions>({
+      eventTarget: createRedisEventTarget({
+        publishClient,
+        subscribeClient,
+        serializer: {
+          stringify: (message) => JSON.stringify(message),
+          // Payloads carry entities, whose Dates must survive the round trip
+          parse: (message) =>
+            JSON.parse(message, (_key, value) =>
+              typeof value === "string" && ISO_DATE_PATTERN.test(value)
+                ? new Date(value)
+                : value
+            ),
+        },
+      }),
+    });
+  }
+
+  public static getInstance(): PubSubService {
+    if (!PubSubService.instance) {
+      PubSubService.instance = new PubSubService();
+    }
+    return PubSubService.instance;
+  }
+
+  /**
+   * Returns the PubSub shared by the schema and the request context.
+   * @returns {PubSub<Subscriptions>} The PubSub
+   */
+  getPubSub(): PubSub<Subscriptions> {
+    return this.pubSub;
+  }
+
+  /**
+   * Publishes an event. A failed publish is logged rather than thrown, so it
+   * never undoes the change being announced.
+   * @param {string} key - The subscription topic
+   * @param {unknown} payload - The event payload
+   */
+  publish<TKey extends Extract<keyof Subscriptions, string>>(
+    key: TKey,
+    ...payload: Subscriptions[TKey]
+  ): void {
+    try {
+      this.pubSub.publish(key, ...payload);
+    } catch (error) {
+      logger.error(`Failed to publish ${logger.cyan(key)}:`, error);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { RedisService } from "./RedisService";
+import { RateLimitRule } from "../types/RateLimit";
+import { logger } from "../utils/logger";
+
+/**
+ * A bucket to take a token from, and the rule it refills by.
+ */
+export interface RateLimitBucket {
+  name: string;
+  rule: RateLimitRule;
+}
+
+/**
+ * RateLimitService - Token-bucket rate limiting in Redis, shared by every
+ * server. Buckets are checked and drawn from in one Lua script, so a request
+ * either passes every limit that applies to it or uses up none of them.
+ */
+export class RateLimitService {
+  private static instance: RateLimitService;
+  private redis: RedisService;
+  private takeTokensScript: string;
+
+  private constructor() {
+    this.redis = RedisService.getInstance();
+    this.takeTokensScript = readFileSync(
+      join(__dirname, "../scripts/redis/take_tokens.lua"),
+      "utf8"
+    );
+  }
+
+  public static getInstance(): RateLimitService {
+    if (!RateLimitService.instance) {
+      RateLimitService.instance = new RateLimitService();
+    }
+    return RateLimitService.instance;
+  }
+
+  // ============================================
+  // Redis Key Management
+  // ============================================
+
+  /**
+   * Returns the Redis key of a token bucket.
+   * @param {string} name - The bucket name, e.g. `placeBet:user:<userId>`
+   * @returns {string} The Redis key
+   */
+  private getKey(name: string): string {
+    return `ratelimit:${name}`;
+  }
+
+  // ============================================
+  // Rate Limiting
+  // ============================================
+
+  /**
+   * Takes one token from each bucket, or none if any bucket is empty.
+   * @param {RateLimitBucket[]} buckets - The buckets the request counts against
+   * @returns {Promise<number>} 0 if the request is allowed, otherwise milliseconds until it would be
+   */
+  async take(buckets: RateLimitBucket[]): Promise<number> {
+    if (buckets.length === 0) return 0;
+    // EVAL rather than EVALSHA + SCRIPT LOAD: this runs on every rate
+    // limited request and Redis caches the script after the first call
+    const [allowed, retryAfterMs] = (await this.redis.getClient().eval(
+      this.takeTokensScript,
+      buckets.length,
+      ...buckets.map((bucket) => this.getKey(bucket.name)),
+      ...buckets.flatMap((bucket) => [
+        bucket.rule.capacity.toString(),
+        bucket.rule.refillPerSecond.toString(),
+      ])
+    )) as [number, number];
+
+    if (allowed === 1) return 0;
+    logger.warn(
+      `Rate limited ${logger.cyan(buckets.map((bucket) => bucket.name).join(", "))} for ${logger.cyan(retryAfterMs)}ms`
+    );
+    return retryAfterMs;
+  }
+}
@@ -1,22 +1,71 @@
-import axios from "axios";
-import { RedisService } from "./RedisService";
+import { readFileSync } from "fs";
+import { join } from "path";
 import { Fighter } from "../entities/Fighter";
 import {
+  MatchDataProvider,
   SaltyBoyMatch,
-  SaltyBoyMatchListResponse,
   SaltyBoyCurrentMatchResponse,
   SaltyBoyFighter,
 } from "../types/saltyboy";
+import { HttpMatchDataProvider } from "./providers/HttpMatchDataProvider";
+import { ResilientMatchDataProvider } from "./providers/ResilientMatchDataProvider";
+import { UpstreamHealthDto } from "../dtos/UpstreamHealthDto";
+import {
+  MatchRecording,
+  ReplayMatchDataProvider,
+} from "./providers/ReplayMatchDataProvider";
+import { MatchFormat } from "../types/MatchFormat";
 import { logger } from "../utils/logger";
 
 export class SaltyBoyService {
   private static instance: SaltyBoyService;
-  private baseUrl = "https://salty-boy.com/api";
-  private redis: RedisService;
+  private provider: ResilientMatchDataProvider;
+  private readonly MATCH_LIST_PAGE_SIZE = 100;
 
   private constructor() {
-    this.redis = RedisService.getInstance();
-    logger.debug("Initializing SaltyBoyService");
+    this.provider = new ResilientMatchDataProvider(
+      SaltyBoyService.createProvider(),
+      {
+        retries: parseInt(process.env.SALTYBOY_RETRIES || "2"),
+        retryBaseDelayMs: parseInt(process.env.SALTYBOY_RETRY_DELAY_MS || "200"),
+        failureThreshold: parseInt(process.env.SALTYBOY_BREAKER_THRESHOLD || "5"),
+        cooldownMs: parseInt(process.env.SALTYBOY_BREAKER_COOLDOWN_MS || "30000"),
+      }
+    );
+    logger.debug(
+      `Initializing SaltyBoyService with ${logger.cyan(this.provider.name)} match data provider`
+    );
+  }
+
+  /**
+   * Builds the match data provider selected by MATCH_DATA_PROVIDER:
+   * - `http` (default): the live API at SALTYBOY_API_URL, with each request
+   *   timing out after SALTYBOY_TIMEOUT_MS
+   * - `replay`: replays the recording at MATCH_REPLAY_FILE, switching fights
+   *   every MATCH_REPLAY_FIGHT_MS milliseconds
+   * @returns {MatchDataProvider} The configured provider
+   */
+  private static createProvider(): MatchDataProvider {
+    const providerName = process.env.MATCH_DATA_PROVIDER || "http";
+    switch (providerName) {
+      case "http":
+        return new HttpMatchDataProvider(
+          process.env.SALTYBOY_API_URL || "https://salty-boy.com/api",
+          parseInt(process.env.SALTYBOY_TIMEOUT_MS || "3000")
+        );
+      case "replay": {
+        const file =
+          process.env.MATCH_REPLAY_FILE ||
+          join(__dirname, "../scripts/replay/sample.json");
+        const recording: MatchRecording = JSON.parse(readFileSync(file, "utf8"));
+        return new ReplayMatchDataProvider(
+          recording,
+          parseInt(process.env.MATCH_REPLAY_FIGHT_MS || "60000")
+        );
+      }
+      default:
+        throw new Error(`Unknown MATCH_DATA_PROVIDER "${providerName}"`);
+    }
   }
 
   public static getInstance(): SaltyBoyService {
@@ -27,6 +76,14 @@ export class SaltyBoyService {
     return SaltyBoyService.instance;
   }
 
+  /**
+   * Reports the health of the upstream match data provider.
+   * @returns {UpstreamHealthDto} Circuit breaker state and recent failures
+   */
+  getUpstreamHealth(): UpstreamHealthDto {
+    return this.provider.getHealth();
+  }
+
   private createMatchHash(
     fighterBlueId: number,
     fighterRedId: number,
@@ -42,77 +99,58 @@ export class SaltyBoyService {
     return `${fighterBlueId}-${fighterRedId}-${identifier}`;
   }
 
-  public compareMatchHashes(hash1: string, hash2: string): boolean {
-    logger.debug(
-      `Comparing match hashes ${logger.cyan(hash1)} and ${logger.cyan(hash2)}`
-    );
-    const [blue1, red1] = hash1.split("-");
-    const [blue2, red2] = hash2.split("-");
-    const result = blue1 === blue2 && red1 === red2;
-    logger.debug(`Hash comparison result: ${logger.cyan(result)}`);
-    return result;
-  }
-
-  /**
-   * Returns the Redis key used to store the latest Salty Boy match ID.
-   * @returns {string} The Redis key for the latest Salty Boy match ID
-   */
-  private getLatestSaltyBoyMatchKey(): string {
-    return "match:latest:id";
-  }
-
-  /**
-   * Fetches the latest Salty Boy match ID from Redis.
-   * @returns {Promise<number | null>} The latest match ID or null if not found
-   */
-  async getLatestSaltyBoyMatchId(): Promise<number | null> {
-    logger.debug("Fetching latest Salty Boy match ID from Redis");
-    const matchId = await this.redis.getClient().get(this.getLatestSaltyBoyMatchKey());
-    logger.debug(`Latest Salty Boy match ID: ${matchId ? logger.cyan(matchId) : "none"}`);
-    return matchId ? parseInt(matchId) : null;
-  }
-
   /**
-   * Sets the latest Salty Boy match ID in Redis.
-   * @param {string} matchId - The match ID to set as the latest
-   * @returns {Promise<void>}
+   * Creates the match hash for a fight whose fighters have no Salty Boy ids.
+   * The prefix keeps it from ever matching an id-based hash.
    */
-  async setLatestSaltyBoyMatchId(matchId: string): Promise<void> {
-    logger.debug(`Setting latest Salty Boy match ID to ${logger.cyan(matchId)}`);
-    await this.redis.getClient().set(this.getLatestSaltyBoyMatchKey(), matchId);
+  private createNameMatchHash(
+    fighterBlueName: string,
+    fighterRedName: string,
+    identifier: string
+  ): string {
+    return `name:${fighterBlueName}|${fighterRedName}|${identifier}`;
   }
 
   async getMatchById(matchId: string): Promise<SaltyBoyMatch> {
     logger.debug(`Fetching match with ID ${logger.cyan(matchId)}`);
     try {
-      const response = await axios.get<SaltyBoyMatch>(
-        `${this.baseUrl}/match/${matchId}/`
-      );
+      const match = await this.provider.getMatchById(parseInt(matchId));
       logger.debug(`Successfully fetched match ${logger.cyan(matchId)}`);
-      return response.data;
+      return match;
     } catch (error) {
       logger.error(`Error fetching match ${logger.cyan(matchId)}:`, error);
       throw new Error("Failed to fetch match from Salty Boy API");
     }
   }
 
+  /**
+   * Fetches the fight currently on stream. Fights Salty Boy has no fighter
+   * records for (exhibitions, new characters) are identified by fighter names
+   * instead of ids.
+   * @returns The current match and the hash used as its match ID
+   * @throws {Error} If the API is unreachable or reports no fight
+   */
   async getCurrentMatch(): Promise<{
     data: SaltyBoyCurrentMatchResponse;
     hash: string;
   }> {
     logger.debug("Fetching current match info");
+    let currentMatch: SaltyBoyCurrentMatchResponse;
     try {
-      const response = await axios.get<SaltyBoyCurrentMatchResponse>(
-        `${this.baseUrl}/current_match_info/`
-      );
-      const { fighter_blue_info, fighter_red_info, updated_at } = response.data;
-      // ============================================
-      // Validate fighter info presence
-      // ============================================
-      if (!fighter_blue_info || !fighter_red_info) {
-        logger.error("Missing fighter info in Salty Boy API response, most likely the match is an exhibition match");
-        throw new Error("Current match data is missing fighter information");
-      }
+      currentMatch = await this.provider.getCurrentMatch();
+    } catch (error) {
+      logger.error("Error fetching current match:", error);
+      throw new Error("Failed to fetch current match from Salty Boy API");
+    }
+
+    const {
+      fighter_blue,
+      fighter_red,
+      fighter_blue_info,
+      fighter_red_info,
+      updated_at,
+    } = currentMatch;
+    if (fighter_blue_info && fighter_red_info) {
       const actualHash = this.createMatchHash(
         fighter_blue_info.id,
         fighter_red_info.id,
@@ -125,104 +163,77 @@ export class SaltyBoyService {
           fighter_red_info.id
         )}`
       );
-      return { data: response.data, hash: actualHash };
-    } catch (error) {
-      logger.error("Error fetching current match:", error);
-      throw new Error("Failed to fetch current match from Salty Boy API. The match may be an exhibition match.");
+      return { data: currentMatch, hash: actualHash };
+    }
+
+    // ============================================
+    // Fall back to fighter names
+    // ============================================
+    if (!fighter_blue || !fighter_red) {
+      logger.error("Salty Boy API response has neither fighter info nor fighter names");
+      throw new Error("Current match data is missing fighter information");
     }
+    const nameHash = this.createNameMatchHash(fighter_blue, fighter_red, updated_at);
+    logger.debug(
+      `Current match has no fighter info, using name hash ${logger.cyan(nameHash)}`
+    );
+    return { data: currentMatch, hash: nameHash };
   }
 
-  async crawlLatestMatch(): Promise<{
-    data: SaltyBoyMatch;
-    hash: string;
-  } | null> {
-    logger.debug("Crawling latest match");
+  /**
+   * Maps the Salty Boy match format to a MatchFormat. Unknown formats are
+   * treated as matchmaking, or as an exhibition when the fighters are unknown.
+   * @param {SaltyBoyCurrentMatchResponse} data - The current match
+   * @returns {MatchFormat} The match format
+   */
+  getMatchFormat(data: SaltyBoyCurrentMatchResponse): MatchFormat {
+    switch (data.match_format?.toLowerCase()) {
+      case "matchmaking":
+        return MatchFormat.MATCHMAKING;
+      case "tournament":
+        return MatchFormat.TOURNAMENT;
+      case "exhibition":
+        return MatchFormat.EXHIBITION;
+      default:
+        return data.fighter_blue_info && data.fighter_red_info
+          ? MatchFormat.MATCHMAKING
+          : MatchFormat.EXHIBITION;
+    }
+  }
+
+  /**
+   * Fetches the most recently recorded Salty Boy matches.
+   * @param {number} limit - How many matches to return at most
+   * @returns {Promise<SaltyBoyMatch[]>} The matches, oldest first
+   */
+  async getRecentMatches(limit: number): Promise<SaltyBoyMatch[]> {
+    logger.debug(`Fetching the ${logger.cyan(limit)} most recent matches`);
     try {
       // First get the total count of matches
-      const countResponse = await axios.get<SaltyBoyMatchListResponse>(
-        `${this.baseUrl}/match/`,
-        {
-          params: {
-            page_size: 1,
-            page: 0,
-          },
-        }
-      );
-
-      const totalCount = countResponse.data.count;
+      const countResponse = await this.provider.getMatchList(0, 1);
+      const totalCount = countResponse.count;
       logger.debug(`Total match count: ${logger.cyan(totalCount)}`);
-      if (!totalCount) {
-        logger.warn("No matches found in the system");
-        return null;
-      }
-
-      // Calculate the last page (100 items per page)
-      const pageSize = 100;
-      const lastPage = Math.ceil(totalCount / pageSize);
-      logger.debug(`Fetching last page ${logger.cyan(lastPage)} of matches`);
-
-      // Get the last page of matches
-      const response = await axios.get<SaltyBoyMatchListResponse>(
-        `${this.baseUrl}/match/`,
-        {
-          params: {
-            page_size: pageSize,
-            page: lastPage - 1,
-          },
-        }
-      );
+      if (!totalCount) return [];
 
-      if (
-        !response.data ||
-        !response.data.results ||
-        !response.data.results.length
-      ) {
-        logger.warn("No matches found in the last page");
-        return null;
+      // Walk back from the last page until we have enough matches
+      const lastPage = Math.ceil(totalCount / this.MATCH_LIST_PAGE_SIZE) - 1;
+      const matches: SaltyBoyMatch[] = [];
+      for (let page = lastPage; page >= 0 && matches.length < limit; page--) {
+        const response = await this.provider.getMatchList(page, this.MATCH_LIST_PAGE_SIZE);
+        matches.unshift(...response.results);
       }
-
-      // Get the last match from the results
-      const latestMatch =
-        response.data.results[response.data.results.length - 1];
-      const { fighter_blue, fighter_red, date } = latestMatch;
-      const hash = this.createMatchHash(fighter_blue, fighter_red, date);
-
-      logger.debug(
-        `Found latest match with hash ${logger.cyan(hash)} and ID ${logger.cyan(
-          latestMatch.id
-        )}`
-      );
-
-      await this.setLatestSaltyBoyMatchId(latestMatch.id.toString());
-
-      return {
-        data: latestMatch,
-        hash,
-      };
+      return matches.slice(-limit);
     } catch (error) {
-      logger.error("Error crawling latest match:", error);
-      return null;
+      logger.error("Error fetching recent matches:", error);
+      throw new Error("Failed to fetch recent matches from Salty Boy API");
     }
   }
 
   async getFighterById(id: number): Promise<Fighter> {
     logger.debug(`Fetching fighter with ID ${logger.cyan(id)}`);
     try {
-      const response = await axios.get<SaltyBoyFighter>(
-        `${this.baseUrl}/fighter/${id}/`
-      );
-      const fighterData = response.data;
-
-      const fighter = new Fighter();
-      fighter.id = fighterData.id;
-      fighter.name = fighterData.name;
-      fighter.tier = fighterData.tier;
-      fighter.prevTier = fighterData.prev_tier;
-      fighter.elo = fighterData.elo;
-      fighter.tierElo = fighterData.tier_elo;
-      fighter.bestStreak = fighterData.best_streak;
-      fighter.createdTime = new Date(fighterData.created_time);
-      fighter.lastUpdated = new Date(fighterData.last_updated);
+      const fighterData = await this.provider.getFighterById(id);
+      const fighter = this.toFighter(fighterData);
 
       logger.debug(
         `Successfully fetched fighter ${logger.cyan(
@@ -237,42 +248,23 @@ export class SaltyBoyService {
     }
   }
 
-  async getNextLatestMatch(): Promise<{
-    data: SaltyBoyMatch;
-    hash: string;
-  } | null> {
-    logger.debug("Fetching next latest match");
-    try {
-      let latestMatchId = await this.getLatestSaltyBoyMatchId();
-      if (!latestMatchId) {
-        logger.warn("No latest match ID found");
-        const latestCrawledMatch = await this.crawlLatestMatch();
-        latestMatchId = latestCrawledMatch?.data.id;
-      }
-
-      const nextMatchId = latestMatchId + 1;
-      logger.debug(`Fetching match with ID ${logger.cyan(nextMatchId)}`);
-
-      const response = await axios.get<SaltyBoyMatch>(
-        `${this.baseUrl}/match/${nextMatchId}/`
-      );
-
-      const { fighter_blue, fighter_red, date } = response.data;
-      const hash = this.createMatchHash(fighter_blue, fighter_red, date);
-
-      logger.debug(
-        `Found next match with hash ${logger.cyan(hash)} and ID ${logger.cyan(
-          nextMatchId
-        )}`
-      );
-
-      return {
-        data: response.data,
-        hash,
-      };
-    } catch (error) {
-      logger.error("Latest match not found, or error fetching next match:", error);
-      return null;
-    }
+  /**
+   * Maps a Salty Boy fighter payload to a (not yet saved) Fighter entity.
+   * @param {SaltyBoyFighter} fighterData - The fighter as returned by the API
+   * @returns {Fighter} The fighter, stamped as synced now
+   */
+  toFighter(fighterData: SaltyBoyFighter): Fighter {
+    const fighter = new Fighter();
+    fighter.id = fighterData.id;
+    fighter.name = fighterData.name;
+    fighter.tier = fighterData.tier;
+    fighter.prevTier = fighterData.prev_tier;
+    fighter.elo = fighterData.elo;
+    fighter.tierElo = fighterData.tier_elo;
+    fighter.bestStreak = fighterData.best_streak;
+    fighter.createdTime = new Date(fighterData.created_time);
+    fighter.lastUpdated = new Date(fighterData.last_updated);
+    fighter.syncedAt = new Date();
+    return fighter;
   }
 }
@@ -0,0 +1,66 @@
+import axios from "axios";
+import {
+  MatchDataProvider,
+  SaltyBoyCurrentMatchResponse,
+  SaltyBoyFighter,
+  SaltyBoyMatch,
+  SaltyBoyMatchListResponse,
+} from "../../types/saltyboy";
+
+/**
+ * MatchDataProvider backed by the live Salty Boy HTTP API. Every request is
+ * bounded by a timeout so a slow upstream can't hang a caller.
+ */
+export class HttpMatchDataProvider implements MatchDataProvider {
+  readonly name = "http";
+
+  /**
+   * @param {string} baseUrl - Salty Boy API root, without a trailing slash
+   * @param {number} timeoutMs - Per-request timeout
+   */
+  constructor(
+    private readonly baseUrl: string,
+    private readonly timeoutMs: number
+  ) {}
+
+  async getCurrentMatch(): Promise<SaltyBoyCurrentMatchResponse> {
+    const response = await axios.get<SaltyBoyCurrentMatchResponse>(
+      `${this.baseUrl}/current_match_info/`,
+      { timeout: this.timeoutMs }
+    );
+    return response.data;
+  }
+
+  async getMatchById(id: number): Promise<SaltyBoyMatch> {
+    const response = await axios.get<SaltyBoyMatch>(
+      `${this.baseUrl}/match/${id}/`,
+      { timeout: this.timeoutMs }
+    );
+    return response.data;
+  }
+
+  async getMatchList(
+    page: number,
+    pageSize: number
+  ): Promise<SaltyBoyMatchListResponse> {
+    const response = await axios.get<SaltyBoyMatchListResponse>(
+      `${this.baseUrl}/match/`,
+      {
+        params: {
+          page_size: pageSize,
+          page,
+        },
+        timeout: this.timeoutMs,
+      }
+    );
+    return response.data;
+  }
+
+  async getFighterById(id: number): Promise<SaltyBoyFighter> {
+    const response = await axios.get<SaltyBoyFighter>(
+      `${this.baseUrl}/fighter/${id}/`,
+      { timeout: this.timeoutMs }
+    );
+    return response.data;
+  }
+}
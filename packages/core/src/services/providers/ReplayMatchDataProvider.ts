@@ -0,0 +1,122 @@
+import {
+  MatchDataProvider,
+  SaltyBoyCurrentMatchResponse,
+  SaltyBoyFighter,
+  SaltyBoyMatch,
+  SaltyBoyMatchListResponse,
+} from "../../types/saltyboy";
+
+/**
+ * A recording of fights to replay, in the same shape the Salty Boy API
+ * returns so real responses can be captured and dropped in.
+ */
+export interface MatchRecording {
+  fighters: SaltyBoyFighter[];
+  matches: SaltyBoyMatch[];
+}
+
+/**
+ * Offline MatchDataProvider that replays a recording on a fixed clock.
+ *
+ * Every `fightDurationMs` the next recorded fight goes on "stream" and the
+ * previous one completes, looping over the recording forever. Completed fights
+ * are numbered 1, 2, 3... so the id-based lookups `SaltyBoyService` does to find
+ * results work exactly as against the live API.
+ */
+export class ReplayMatchDataProvider implements MatchDataProvider {
+  readonly name = "replay";
+  private readonly startedAt = Date.now();
+  private readonly fightersById: Map<number, SaltyBoyFighter>;
+
+  /**
+   * @param {MatchRecording} recording - The fights to replay (at least one)
+   * @param {number} fightDurationMs - How long each fight stays on stream
+   */
+  constructor(
+    private readonly recording: MatchRecording,
+    private readonly fightDurationMs: number
+  ) {
+    if (recording.matches.length === 0) {
+      throw new Error("Replay recording has no matches");
+    }
+    this.fightersById = new Map(
+      recording.fighters.map((fighter) => [fighter.id, fighter])
+    );
+  }
+
+  async getCurrentMatch(): Promise<SaltyBoyCurrentMatchResponse> {
+    const step = this.currentStep();
+    const match = this.recordedMatchAt(step);
+    const blue = await this.getFighterById(match.fighter_blue);
+    const red = await this.getFighterById(match.fighter_red);
+    return {
+      fighter_blue: blue.name,
+      fighter_red: red.name,
+      fighter_blue_info: blue,
+      fighter_red_info: red,
+      match_format: match.match_format,
+      tier: match.tier,
+      updated_at: this.stepStartedAt(step),
+    };
+  }
+
+  async getMatchById(id: number): Promise<SaltyBoyMatch> {
+    if (!Number.isInteger(id) || id < 1 || id > this.currentStep()) {
+      throw new Error(`Replay match ${id} has not completed`);
+    }
+    return this.completedMatch(id - 1);
+  }
+
+  async getMatchList(
+    page: number,
+    pageSize: number
+  ): Promise<SaltyBoyMatchListResponse> {
+    const count = this.currentStep();
+    const from = page * pageSize;
+    const to = Math.min(from + pageSize, count);
+    const results: SaltyBoyMatch[] = [];
+    for (let step = from; step < to; step++) {
+      results.push(this.completedMatch(step));
+    }
+    return { count, next: null, previous: null, results };
+  }
+
+  async getFighterById(id: number): Promise<SaltyBoyFighter> {
+    const fighter = this.fightersById.get(id);
+    if (!fighter) {
+      throw new Error(`Fighter ${id} is not in the replay recording`);
+    }
+    return fighter;
+  }
+
+  // ============================================
+  // Replay Clock
+  // ============================================
+
+  /**
+   * Number of fights completed since the replay started, which is also the
+   * index of the fight currently on stream.
+   */
+  private currentStep(): number {
+    return Math.floor((Date.now() - this.startedAt) / this.fightDurationMs);
+  }
+
+  private stepStartedAt(step: number): string {
+    return new Date(this.startedAt + step * this.fightDurationMs).toISOString();
+  }
+
+  private recordedMatchAt(step: number): SaltyBoyMatch {
+    return this.recording.matches[step % this.recording.matches.length];
+  }
+
+  /**
+   * The result of a completed step, renumbered so ids are consecutive.
+   */
+  private completedMatch(step: number): SaltyBoyMatch {
+    return {
+      ...this.recordedMatchAt(step),
+      id: step + 1,
+      date: this.stepStartedAt(step),
+    };
+  }
+}
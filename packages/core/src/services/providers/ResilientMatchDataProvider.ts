@@ -0,0 +1,206 @@
+import axios from "axios";
+import {
+  MatchDataProvider,
+  SaltyBoyCurrentMatchResponse,
+  SaltyBoyFighter,
+  SaltyBoyMatch,
+  SaltyBoyMatchListResponse,
+} from "../../types/saltyboy";
+import { CircuitState } from "../../types/CircuitState";
+import { UpstreamHealthDto } from "../../dtos/UpstreamHealthDto";
+import { logger } from "../../utils/logger";
+
+/**
+ * Retry and circuit breaker settings.
+ */
+export interface ResilienceOptions {
+  /** Extra attempts after the first failure */
+  retries: number;
+  /** First backoff delay; doubles on every retry, plus up to the same in jitter */
+  retryBaseDelayMs: number;
+  /** Upstream failures in a row that open the circuit */
+  failureThreshold: number;
+  /** How long an open circuit fails fast before allowing a trial call */
+  cooldownMs: number;
+}
+
+/**
+ * Wraps a MatchDataProvider with bounded retries (exponential backoff) and a
+ * circuit breaker that fails fast while the upstream is down.
+ *
+ * Only upstream failures count: timeouts, network errors, 429 and 5xx
+ * responses. Anything else (e.g. a 404 for a match that doesn't exist yet) is
+ * a normal answer and is passed straight through.
+ */
+export class ResilientMatchDataProvider implements MatchDataProvider {
+  readonly name: string;
+  private state = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastSuccessAt: Date | null = null;
+  private lastFailureAt: Date | null = null;
+  private lastError: string | null = null;
+
+  /**
+   * @param {MatchDataProvider} inner - The provider to protect
+   * @param {ResilienceOptions} options - Retry and breaker settings
+   */
+  constructor(
+    private readonly inner: MatchDataProvider,
+    private readonly options: ResilienceOptions
+  ) {
+    this.name = inner.name;
+  }
+
+  getCurrentMatch(): Promise<SaltyBoyCurrentMatchResponse> {
+    return this.call("getCurrentMatch", () => this.inner.getCurrentMatch());
+  }
+
+  getMatchById(id: number): Promise<SaltyBoyMatch> {
+    return this.call(`getMatchById(${id})`, () => this.inner.getMatchById(id));
+  }
+
+  getMatchList(page: number, pageSize: number): Promise<SaltyBoyMatchListResponse> {
+    return this.call(`getMatchList(${page})`, () =>
+      this.inner.getMatchList(page, pageSize)
+    );
+  }
+
+  getFighterById(id: number): Promise<SaltyBoyFighter> {
+    return this.call(`getFighterById(${id})`, () => this.inner.getFighterById(id));
+  }
+
+  /**
+   * Reports the breaker's state for the upstream health query.
+   * @returns {UpstreamHealthDto} The current health snapshot
+   */
+  getHealth(): UpstreamHealthDto {
+    this.refreshState();
+    return {
+      provider: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastSuccessAt: this.lastSuccessAt,
+      lastFailureAt: this.lastFailureAt,
+      lastError: this.lastError,
+      retryAt:
+        this.state === CircuitState.OPEN
+          ? new Date(this.openedAt + this.options.cooldownMs)
+          : null,
+    };
+  }
+
+  // ============================================
+  // Retry & Circuit Breaker
+  // ============================================
+
+  /**
+   * Runs an upstream call through the breaker, retrying upstream failures.
+   * @param {string} label - Operation name used in logs
+   * @param {() => Promise<T>} fn - The call to make
+   * @returns {Promise<T>} The call's result
+   * @throws {Error} Immediately if the circuit is open, otherwise the last error
+   */
+  private async call<T>(label: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      this.acquire(label);
+      try {
+        const result = await fn();
+        this.onSuccess();
+        return result;
+      } catch (error) {
+        if (!this.isUpstreamFailure(error)) {
+          // The upstream answered; a trial call that gets an answer proves it is back
+          this.onSuccess();
+          throw error;
+        }
+        this.onFailure(error);
+        if (attempt >= this.options.retries || this.state !== CircuitState.CLOSED) {
+          throw error;
+        }
+        const delay =
+          this.options.retryBaseDelayMs * 2 ** attempt +
+          Math.random() * this.options.retryBaseDelayMs;
+        logger.warn(
+          `Upstream ${logger.cyan(label)} failed (attempt ${logger.cyan(attempt + 1)}), retrying in ${logger.cyan(Math.round(delay))}ms`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Lets a call through or fails fast. Half-open lets exactly one trial call through.
+   * @param {string} label - Operation name used in the error
+   * @throws {Error} If the circuit is open or a trial call is already running
+   */
+  private acquire(label: string): void {
+    this.refreshState();
+    if (
+      this.state === CircuitState.OPEN ||
+      (this.state === CircuitState.HALF_OPEN && this.trialInFlight)
+    ) {
+      throw new Error(
+        `Salty Boy API is unavailable, skipping ${label} (circuit open)`
+      );
+    }
+    if (this.state === CircuitState.HALF_OPEN) {
+      this.trialInFlight = true;
+    }
+  }
+
+  /**
+   * Moves an open circuit to half-open once its cooldown has passed.
+   */
+  private refreshState(): void {
+    if (
+      this.state === CircuitState.OPEN &&
+      Date.now() - this.openedAt >= this.options.cooldownMs
+    ) {
+      this.state = CircuitState.HALF_OPEN;
+      this.trialInFlight = false;
+    }
+  }
+
+  private onSuccess(): void {
+    if (this.state !== CircuitState.CLOSED) {
+      logger.success(`Salty Boy API recovered, closing circuit`);
+    }
+    this.state = CircuitState.CLOSED;
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = new Date();
+  }
+
+  private onFailure(error: unknown): void {
+    this.consecutiveFailures += 1;
+    this.lastFailureAt = new Date();
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.trialInFlight = false;
+
+    if (
+      this.state === CircuitState.HALF_OPEN ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      if (this.state !== CircuitState.OPEN) {
+        logger.error(
+          `Salty Boy API failing (${logger.cyan(this.consecutiveFailures)} in a row), opening circuit for ${logger.cyan(this.options.cooldownMs)}ms`
+        );
+      }
+      this.state = CircuitState.OPEN;
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Whether an error means the upstream is unhealthy rather than answering.
+   * @param {unknown} error - The error thrown by the inner provider
+   * @returns {boolean} True for timeouts, network errors, 429 and 5xx
+   */
+  private isUpstreamFailure(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) return false;
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+}
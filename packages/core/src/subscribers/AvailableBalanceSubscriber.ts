@@ -0,0 +1,35 @@
+import {
+  EventSubscriber,
+  EntitySubscriberInterface,
+  TransactionCommitEvent,
+  TransactionRollbackEvent,
+} from "typeorm";
+import { AvailableBalanceService } from "../services/AvailableBalanceService";
+import { logger } from "../utils/logger";
+
+/**
+ * Keeps the Redis available-balance mirror in step with Postgres by applying
+ * the adjustments a transaction queued only after it commits.
+ */
+@EventSubscriber()
+export class AvailableBalanceSubscriber implements EntitySubscriberInterface {
+  /**
+   * Applies the queued mirror adjustments once the balances are committed.
+   * @param {TransactionCommitEvent} event - The commit event
+   */
+  async afterTransactionCommit(event: TransactionCommitEvent): Promise<void> {
+    try {
+      await AvailableBalanceService.getInstance().flushQueued(event.queryRunner);
+    } catch (error) {
+      logger.error("Failed to apply available balance adjustments:", error);
+    }
+  }
+
+  /**
+   * Drops the queued mirror adjustments; the balances never changed.
+   * @param {TransactionRollbackEvent} event - The rollback event
+   */
+  afterTransactionRollback(event: TransactionRollbackEvent): void {
+    AvailableBalanceService.getInstance().discardQueued(event.queryRunner);
+  }
+}
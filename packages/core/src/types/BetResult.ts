@@ -0,0 +1,12 @@
+import { registerEnumType } from "type-graphql";
+
+export enum BetResult {
+  WON = "WON", // Stake returned plus a share of the losing pool
+  LOST = "LOST", // Stake went to the winners
+  REFUNDED = "REFUNDED", // Stake returned (voided match, no bets on the winner)
+}
+
+registerEnumType(BetResult, {
+  name: "BetResult",
+  description: "How a settled bet turned out",
+});
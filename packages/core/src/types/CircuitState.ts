@@ -0,0 +1,12 @@
+import { registerEnumType } from "type-graphql";
+
+export enum CircuitState {
+  CLOSED = "CLOSED", // Calls go through normally
+  OPEN = "OPEN", // Upstream is down, calls fail fast
+  HALF_OPEN = "HALF_OPEN", // Cooldown over, one trial call decides
+}
+
+registerEnumType(CircuitState, {
+  name: "CircuitState",
+  description: "State of the circuit breaker guarding an upstream API",
+});
@@ -2,24 +2,41 @@ import { Request } from "express";
 import { User } from "../entities/User";
 import { PubSub } from "@graphql-yoga/subscription";
 import { MatchTotalsDto } from "../dtos/MatchTotalsDto";
+import { MatchOddsDto } from "../dtos/MatchOddsDto";
+import { MatchResolvedDto } from "../dtos/MatchResolvedDto";
+import { Match } from "../entities/Match";
+import { Fighter } from "../entities/Fighter";
+import { BatchLoader } from "../utils/BatchLoader";
 
 export enum SubscriptionKeys {
   BetTotals = "BET_TOTALS",
+  MatchOdds = "MATCH_ODDS",
+  MatchCreated = "MATCH_CREATED",
+  BetsLocked = "BETS_LOCKED",
+  MatchResolved = "MATCH_RESOLVED",
+  MatchVoided = "MATCH_VOIDED",
 }
 
 export interface Subscriptions {
   [SubscriptionKeys.BetTotals]: [MatchTotalsDto];
+  [SubscriptionKeys.MatchOdds]: [MatchOddsDto];
+  [SubscriptionKeys.MatchCreated]: [Match];
+  [SubscriptionKeys.BetsLocked]: [Match];
+  [SubscriptionKeys.MatchResolved]: [MatchResolvedDto];
+  [SubscriptionKeys.MatchVoided]: [Match];
   [key: string]: [any];
 }
 
 /**
  * The GraphQL context shared across resolvers.
  * @property {User | null} user - The authenticated user, if any.
- * @property {Request} req - The Express request object.
+ * @property {Request | null} req - The Express request object, or null over WebSocket.
  * @property {PubSub<Subscriptions>} pubSub - The PubSub instance for subscriptions.
+ * @property {BatchLoader<number, Fighter>} fighterLoader - Per-request batched fighter lookups.
  */
 export interface Context {
   user: User | null;
-  req: Request;
+  req: Request | null;
   pubSub: PubSub<Subscriptions>;
+  fighterLoader: BatchLoader<number, Fighter>;
 }
@@ -0,0 +1,14 @@
+import { registerEnumType } from "type-graphql";
+
+export enum LedgerEntryType {
+  BET_DEBIT = "BET_DEBIT", // Finalized wager taken from the balance
+  PAYOUT_CREDIT = "PAYOUT_CREDIT", // Winnings (stake + share of losing pool)
+  REFUND = "REFUND", // Stake returned (no winners, voided match, etc.)
+  PAYOUT_REVERSAL = "PAYOUT_REVERSAL", // Earlier payout/refund taken back after a winner correction
+  ADMIN_ADJUSTMENT = "ADMIN_ADJUSTMENT", // Manual balance change by an admin/manager
+}
+
+registerEnumType(LedgerEntryType, {
+  name: "LedgerEntryType",
+  description: "The reason a user's balance changed",
+});
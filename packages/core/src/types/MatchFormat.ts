@@ -0,0 +1,12 @@
+import { registerEnumType } from "type-graphql";
+
+export enum MatchFormat {
+  MATCHMAKING = "MATCHMAKING", // Regular ranked fights
+  TOURNAMENT = "TOURNAMENT", // Tournament bracket fights
+  EXHIBITION = "EXHIBITION", // Viewer-requested fights, not recorded by Salty Boy
+}
+
+registerEnumType(MatchFormat, {
+  name: "MatchFormat",
+  description: "The Salty Bet format a match was fought in",
+});
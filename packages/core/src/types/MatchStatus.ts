@@ -0,0 +1,13 @@
+import { registerEnumType } from "type-graphql";
+
+export enum MatchStatus {
+  OPEN = "OPEN", // Accepting bets
+  LOCKED = "LOCKED", // Bets finalized, waiting for a result
+  RESOLVED = "RESOLVED", // Winner set and payouts processed
+  VOIDED = "VOIDED", // Cancelled, all bets refunded
+}
+
+registerEnumType(MatchStatus, {
+  name: "MatchStatus",
+  description: "The lifecycle phase of a match",
+});
@@ -0,0 +1,19 @@
+/**
+ * A signed change to one user's period stats. Omitted fields are left unchanged.
+ */
+export interface PeriodStatsChange {
+  userId: string;
+  wins?: number;
+  losses?: number;
+  revenueGained?: number;
+  revenueLost?: number;
+}
+
+/**
+ * The period stat changes of one settlement. The id makes applying it
+ * idempotent, so a batch retried after a failure is never counted twice.
+ */
+export interface PeriodStatsBatch {
+  id: string;
+  changes: PeriodStatsChange[];
+}
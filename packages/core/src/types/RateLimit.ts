@@ -0,0 +1,24 @@
+import { SecurityLevel } from "./SecurityLevel";
+
+/**
+ * A token bucket: callers can burst up to `capacity` requests, then regain
+ * `refillPerSecond` requests every second.
+ */
+export interface RateLimitRule {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * How an operation is rate limited.
+ * @property {string} [operation] - Bucket name. Defaults to the GraphQL field name.
+ * @property {RateLimitRule} perUser - Limit for each caller (users by id, anonymous callers by IP).
+ * @property {Partial<Record<SecurityLevel, RateLimitRule | null>>} [bySecurityLevel] - Per-caller overrides by security level; null exempts the level.
+ * @property {RateLimitRule} [global] - Limit shared by every caller.
+ */
+export interface RateLimitOptions {
+  operation?: string;
+  perUser: RateLimitRule;
+  bySecurityLevel?: Partial<Record<SecurityLevel, RateLimitRule | null>>;
+  global?: RateLimitRule;
+}
@@ -1,8 +1,11 @@
 import { SaltyBoyFighter } from "./Fighter";
 
 export interface SaltyBoyCurrentMatchResponse {
-  fighter_blue_info: SaltyBoyFighter;
-  fighter_red_info: SaltyBoyFighter;
+  fighter_blue: string;
+  fighter_red: string;
+  // Null when Salty Boy has no record of the fighter (e.g. exhibitions)
+  fighter_blue_info: SaltyBoyFighter | null;
+  fighter_red_info: SaltyBoyFighter | null;
   match_format: string | null;
   tier: string | null;
   updated_at: string | null;
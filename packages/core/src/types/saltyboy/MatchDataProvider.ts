@@ -0,0 +1,24 @@
+import { SaltyBoyCurrentMatchResponse } from "./CurrentMatch";
+import { SaltyBoyFighter } from "./Fighter";
+import { SaltyBoyMatch, SaltyBoyMatchListResponse } from "./Match";
+
+/**
+ * Source of Salty Boy match data. `SaltyBoyService` talks to one of these so
+ * the live API can be swapped for an offline stand-in (see MATCH_DATA_PROVIDER).
+ */
+export interface MatchDataProvider {
+  /** Short name used in logs */
+  readonly name: string;
+
+  /** The fight currently on stream */
+  getCurrentMatch(): Promise<SaltyBoyCurrentMatchResponse>;
+
+  /** A completed match by its Salty Boy id */
+  getMatchById(id: number): Promise<SaltyBoyMatch>;
+
+  /** A page (0-based) of completed matches, oldest first */
+  getMatchList(page: number, pageSize: number): Promise<SaltyBoyMatchListResponse>;
+
+  /** A fighter by its Salty Boy id */
+  getFighterById(id: number): Promise<SaltyBoyFighter>;
+}
@@ -1,3 +1,4 @@
 export * from "./Match";
 export * from "./Fighter";
 export * from "./CurrentMatch";
+export * from "./MatchDataProvider";
@@ -0,0 +1,66 @@
+/**
+ * Minimal per-request batching loader. Every `load` made while the current
+ * round of resolvers runs is collected and fetched with a single call to
+ * `batchLoad`; results are memoized for the life of the loader, so create one
+ * per request.
+ */
+export class BatchLoader<K, V> {
+  private cache = new Map<K, Promise<V>>();
+  private queue: {
+    key: K;
+    resolve: (value: V) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+
+  /**
+   * @param {(keys: K[]) => Promise<Map<K, V>>} batchLoad - Fetches many keys at once.
+   *   Keys missing from the returned map reject with a "not found" error.
+   */
+  constructor(private readonly batchLoad: (keys: K[]) => Promise<Map<K, V>>) {}
+
+  /**
+   * Loads one key, batched with every other key requested in the same round.
+   * @param {K} key - The key to load
+   * @returns {Promise<V>} The loaded value
+   */
+  load(key: K): Promise<V> {
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const promise = new Promise<V>((resolve, reject) => {
+      this.queue.push({ key, resolve, reject });
+    });
+    this.cache.set(key, promise);
+
+    // setImmediate runs after every pending promise callback, so sibling and
+    // list-item resolvers have all queued their keys by then
+    if (this.queue.length === 1) {
+      setImmediate(() => void this.dispatch());
+    }
+    return promise;
+  }
+
+  /**
+   * Fetches the queued keys and settles their promises.
+   */
+  private async dispatch(): Promise<void> {
+    const batch = this.queue;
+    this.queue = [];
+    try {
+      const values = await this.batchLoad(batch.map(({ key }) => key));
+      for (const { key, resolve, reject } of batch) {
+        if (values.has(key)) {
+          resolve(values.get(key)!);
+        } else {
+          this.cache.delete(key);
+          reject(new Error(`No result for key ${String(key)}`));
+        }
+      }
+    } catch (error) {
+      for (const { key, reject } of batch) {
+        this.cache.delete(key);
+        reject(error);
+      }
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Opaque cursors for connection pagination. A cursor points at one row of a
+ * list ordered by `createdAt DESC, id DESC`, so it stays valid while new rows
+ * are added at the front.
+ */
+export interface CursorPosition {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Encodes a row's position as an opaque cursor.
+ * @param {Date} createdAt - The row's creation time
+ * @param {string} id - The row's ID, which breaks ties between equal times
+ * @returns {string} The cursor
+ */
+export function encodeCursor(createdAt: Date, id: string): string {
+  return Buffer.from(`${createdAt.toISOString()}|${id}`).toString("base64url");
+}
+
+/**
+ * Decodes a cursor made by `encodeCursor`.
+ * @param {string} cursor - The cursor
+ * @returns {CursorPosition} The row position it points at
+ * @throws {Error} If the cursor is malformed
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+  const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+  const separator = decoded.indexOf("|");
+  const createdAt = new Date(decoded.slice(0, separator));
+  const id = decoded.slice(separator + 1);
+  if (separator === -1 || isNaN(createdAt.getTime()) || !id) {
+    throw new Error("Invalid cursor");
+  }
+  return { createdAt, id };
+}
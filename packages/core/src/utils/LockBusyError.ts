@@ -0,0 +1,18 @@
+/**
+ * Thrown when a lock is already held, i.e. another request or server is
+ * already doing the step. Callers that retry on their own (such as the match
+ * orchestrator) can tell it apart from a real failure.
+ */
+export class LockBusyError extends Error {
+  readonly lockName: string;
+
+  /**
+   * @param {string} lockName - The lock that was taken
+   * @param {string} message - What the caller is told
+   */
+  constructor(lockName: string, message: string) {
+    super(message);
+    this.name = "LockBusyError";
+    this.lockName = lockName;
+  }
+}
@@ -0,0 +1,21 @@
+import { GraphQLError } from "graphql";
+
+/**
+ * Thrown when a caller has used up their rate limit for an operation.
+ * Clients can read `extensions.code === "RATE_LIMITED"` and wait
+ * `extensions.retryAfter` seconds before trying again.
+ */
+export class RateLimitError extends GraphQLError {
+  readonly retryAfter: number;
+
+  /**
+   * @param {string} operation - The rate limited operation
+   * @param {number} retryAfter - Seconds until the next request will be allowed
+   */
+  constructor(operation: string, retryAfter: number) {
+    super(`Too many ${operation} requests. Try again in ${retryAfter}s`, {
+      extensions: { code: "RATE_LIMITED", retryAfter },
+    });
+    this.retryAfter = retryAfter;
+  }
+}
@@ -67,7 +67,7 @@ export default function CreateUserPage(): React.ReactElement {
           label="Balance"
           value={balance}
           onChange={e => setBalance(Number(e.target.value))}
-          placeholder="Enter starting balance"
+          placeholder="Enter starting balance in dollars"
         />
         {error && <div style={{ color: '#dc3545', marginTop: 8 }}>{error}</div>}
         {success && <div style={{ color: '#28a745', marginTop: 8 }}>{success}</div>}
@@ -39,7 +39,7 @@ export function useCreateUserPanel() {
     try {
       const { data } = await createUser({
         variables: {
-          input: { username, password, alias, securityLevel, balance: Number(balance) }
+          input: { username, password, alias, securityLevel, balance: Math.round(Number(balance) * 100) }
         }
       });
       if (data?.createUser) {
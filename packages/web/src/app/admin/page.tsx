@@ -1,7 +1,7 @@
 "use client";
 import React from "react";
 import { Button, TextInput, NumberInput, Heading, Text, CardSection } from '@saltybets/components';
-import { useAdminPanel } from "./useAdminPanel";
+import { useAdminPanel, MATCH_FORMATS } from "./useAdminPanel";
 import Link from "next/link";
 
 /**
@@ -24,6 +24,19 @@ export default function AdminPage(): React.ReactElement {
     handleCreateMatch,
     creatingMatch,
     createMatchError,
+    orchestrator,
+    orchestratorError,
+    handleToggleOrchestrator,
+    togglingOrchestrator,
+    matchSettingsLoaded,
+    bettableFormats,
+    matchSettingsError,
+    handleToggleBettableFormat,
+    updatingBettableFormats,
+    unresolvedMatches,
+    handleResolveMatch,
+    resolvingMatch,
+    resolveMatchError,
   } = useAdminPanel();
 
   return (
@@ -52,7 +65,7 @@ export default function AdminPage(): React.ReactElement {
             label="Amount"
             value={amount}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(Number(e.target.value))}
-            placeholder="Enter amount"
+            placeholder="Enter amount in dollars"
             error={error && !amount ? error : undefined}
           />
           <Button style={{ width: '100%' }} onClick={handleUpdateBalance} disabled={loading}>
@@ -70,6 +83,93 @@ export default function AdminPage(): React.ReactElement {
           )}
         </div>
       </CardSection>
+      {/* ============================================
+          Match Orchestrator Controls
+        ============================================ */}
+      {orchestrator?.enabled && (
+        <CardSection style={{ width: '100%', maxWidth: 400, marginBottom: 16 }}>
+          <div style={{ marginBottom: 8 }}>
+            <Heading level={3}>Match Orchestrator</Heading>
+          </div>
+          <span style={{ display: 'block', marginBottom: 4 }}>
+            <Text variant="body">Status: {orchestrator.paused ? "Paused" : "Running"}</Text>
+          </span>
+          {orchestrator.pauseReason && (
+            <span style={{ color: '#555', display: 'block', marginBottom: 4 }}>
+              <Text variant="small">{orchestrator.pauseReason}</Text>
+            </span>
+          )}
+          {orchestrator.lastError && (
+            <span style={{ display: 'block', marginBottom: 4 }}>
+              <Text variant="error">Last error: {orchestrator.lastError}</Text>
+            </span>
+          )}
+          <Button style={{ width: '100%', marginTop: 8 }} onClick={handleToggleOrchestrator} disabled={togglingOrchestrator}>
+            {orchestrator.paused ? "Resume" : "Pause"}
+          </Button>
+          {orchestratorError && (
+            <span style={{ marginTop: 8, display: 'block' }}>
+              <Text variant="error">{orchestratorError}</Text>
+            </span>
+          )}
+        </CardSection>
+      )}
+      {/* ============================================
+          Match Settings
+        ============================================ */}
+      {matchSettingsLoaded && (
+        <CardSection style={{ width: '100%', maxWidth: 400, marginBottom: 16 }}>
+          <div style={{ marginBottom: 8 }}>
+            <Heading level={3}>Bettable Matches</Heading>
+          </div>
+          <span style={{ color: '#555', display: 'block', marginBottom: 8 }}>
+            <Text variant="small">Applies to matches created from now on. Exhibitions always need a manual winner.</Text>
+          </span>
+          {MATCH_FORMATS.map(({ format, label }) => (
+            <Button
+              key={format}
+              style={{ width: '100%', marginBottom: 8 }}
+              variant={bettableFormats.includes(format) ? "green" : "red"}
+              onClick={() => handleToggleBettableFormat(format)}
+              disabled={updatingBettableFormats}
+            >
+              {label}: {bettableFormats.includes(format) ? "Bettable" : "Not bettable"}
+            </Button>
+          ))}
+          {matchSettingsError && (
+            <span style={{ marginTop: 8, display: 'block' }}>
+              <Text variant="error">{matchSettingsError}</Text>
+            </span>
+          )}
+        </CardSection>
+      )}
+      {/* ============================================
+          Unresolved Match Queue
+        ============================================ */}
+      {unresolvedMatches.length > 0 && (
+        <CardSection style={{ width: '100%', maxWidth: 400, marginBottom: 16 }}>
+          <div style={{ marginBottom: 8 }}>
+            <Heading level={3}>Unresolved Matches</Heading>
+          </div>
+          {unresolvedMatches.map((match: { id: string; fighterRedName: string; fighterBlueName: string; unresolvedReason: string }) => (
+            <div key={match.id} style={{ marginBottom: 12 }}>
+              <Text variant="bold">{match.fighterRedName}</Text> vs <Text variant="bold">{match.fighterBlueName}</Text>
+              <span style={{ color: '#555', display: 'block', marginBottom: 4 }}>
+                <Text variant="small">{match.unresolvedReason}</Text>
+              </span>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <Button variant="red" onClick={() => handleResolveMatch(match.id, "RED")} disabled={resolvingMatch}>Red won</Button>
+                <Button variant="blue" onClick={() => handleResolveMatch(match.id, "BLUE")} disabled={resolvingMatch}>Blue won</Button>
+              </div>
+            </div>
+          ))}
+          {resolveMatchError && (
+            <span style={{ marginTop: 8, display: 'block' }}>
+              <Text variant="error">{resolveMatchError}</Text>
+            </span>
+          )}
+        </CardSection>
+      )}
       {/* ============================================
           Create Match Error Display
         ============================================ */}
@@ -1,7 +1,26 @@
 import { useEffect, useState } from "react";
 import Cookies from "js-cookie";
 import { useRouter } from "next/navigation";
-import { useUpdateUserBalanceMutation, useCreateMatchMutation } from "./useGqlAdminPanel";
+import {
+  useUpdateUserBalanceMutation,
+  useCreateMatchMutation,
+  useMatchOrchestratorStateQuery,
+  usePauseMatchOrchestratorMutation,
+  useResumeMatchOrchestratorMutation,
+  useMatchSettingsQuery,
+  useUpdateBettableFormatsMutation,
+  useUnresolvedMatchesQuery,
+  useEndMatchMutation,
+} from "./useGqlAdminPanel";
+
+/**
+ * Match formats an admin can open or close for betting, with their labels.
+ */
+export const MATCH_FORMATS = [
+  { format: "MATCHMAKING", label: "Matchmaking" },
+  { format: "TOURNAMENT", label: "Tournaments" },
+  { format: "EXHIBITION", label: "Exhibitions" },
+];
 
 /**
  * Custom hook for admin panel business logic.
@@ -17,6 +36,17 @@ export function useAdminPanel() {
   const [createMatchError, setCreateMatchError] = useState<string>("");
   const [updateUserBalanceMutation, { loading }] = useUpdateUserBalanceMutation();
   const [createMatch, { loading: creatingMatch }] = useCreateMatchMutation();
+  const { data: orchestratorData } = useMatchOrchestratorStateQuery();
+  const [pauseOrchestrator, { loading: pausingOrchestrator }] = usePauseMatchOrchestratorMutation();
+  const [resumeOrchestrator, { loading: resumingOrchestrator }] = useResumeMatchOrchestratorMutation();
+  const [orchestratorError, setOrchestratorError] = useState<string>("");
+  const { data: matchSettingsData } = useMatchSettingsQuery();
+  const [updateBettableFormats, { loading: updatingBettableFormats }] = useUpdateBettableFormatsMutation();
+  const [matchSettingsError, setMatchSettingsError] = useState<string>("");
+  const bettableFormats: string[] = matchSettingsData?.matchSettings?.bettableFormats ?? [];
+  const { data: unresolvedMatchesData } = useUnresolvedMatchesQuery();
+  const [endMatch, { loading: resolvingMatch }] = useEndMatchMutation();
+  const [resolveMatchError, setResolveMatchError] = useState<string>("");
 
   useEffect(() => {
     const token = Cookies.get("token");
@@ -48,9 +78,9 @@ export function useAdminPanel() {
       return;
     }
     try {
-      const { data } = await updateUserBalanceMutation({ variables: { username, amount: Number(amount) } });
+      const { data } = await updateUserBalanceMutation({ variables: { username, amount: Math.round(Number(amount) * 100) } });
       if (data?.updateUserBalance) {
-        setSuccess(`Balance for ${data.updateUserBalance.username} updated to $${data.updateUserBalance.balance}`);
+        setSuccess(`Balance for ${data.updateUserBalance.username} updated to $${(data.updateUserBalance.balance / 100).toFixed(2)}`);
         setUsername("");
         setAmount(0);
       } else {
@@ -87,6 +117,64 @@ export function useAdminPanel() {
     }
   };
 
+  /**
+   * Pauses or resumes the automatic match orchestrator depending on its current state.
+   */
+  const handleToggleOrchestrator = async () => {
+    setOrchestratorError("");
+    try {
+      if (orchestratorData?.matchOrchestratorState?.paused) {
+        await resumeOrchestrator();
+      } else {
+        await pauseOrchestrator();
+      }
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setOrchestratorError(err.message);
+      } else {
+        setOrchestratorError("Network error. Please try again.");
+      }
+    }
+  };
+
+  /**
+   * Opens or closes a match format for betting. Applies to matches created afterwards.
+   * @param {string} format - The match format to toggle
+   */
+  const handleToggleBettableFormat = async (format: string) => {
+    setMatchSettingsError("");
+    const formats = bettableFormats.includes(format)
+      ? bettableFormats.filter((bettable) => bettable !== format)
+      : [...bettableFormats, format];
+    try {
+      await updateBettableFormats({ variables: { formats } });
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setMatchSettingsError(err.message);
+      } else {
+        setMatchSettingsError("Network error. Please try again.");
+      }
+    }
+  };
+
+  /**
+   * Ends a match from the unresolved queue with the winner an admin picked.
+   * @param {string} matchId - The match to resolve
+   * @param {string} winner - The winning color (RED or BLUE)
+   */
+  const handleResolveMatch = async (matchId: string, winner: string) => {
+    setResolveMatchError("");
+    try {
+      await endMatch({ variables: { matchId, winner } });
+    } catch (err: unknown) {
+      if (err instanceof Error) {
+        setResolveMatchError(err.message);
+      } else {
+        setResolveMatchError("Network error. Please try again.");
+      }
+    }
+  };
+
   return {
     username,
     setUsername,
@@ -103,5 +191,18 @@ export function useAdminPanel() {
     creatingMatch,
     createMatchError,
     setCreateMatchError,
+    orchestrator: orchestratorData?.matchOrchestratorState ?? null,
+    orchestratorError,
+    handleToggleOrchestrator,
+    togglingOrchestrator: pausingOrchestrator || resumingOrchestrator,
+    matchSettingsLoaded: !!matchSettingsData?.matchSettings,
+    bettableFormats,
+    matchSettingsError,
+    handleToggleBettableFormat,
+    updatingBettableFormats,
+    unresolvedMatches: unresolvedMatchesData?.unresolvedMatches ?? [],
+    handleResolveMatch,
+    resolvingMatch,
+    resolveMatchError,
   };
 } 
\ No newline at end of file
@@ -1,10 +1,10 @@
-import { gql, useMutation } from "@apollo/client";
+import { gql, useMutation, useQuery } from "@apollo/client";
 
 /**
  * GraphQL mutation for updating a user's balance.
  */
 export const UPDATE_USER_BALANCE = gql`
-  mutation UpdateUserBalance($username: String!, $amount: Float!) {
+  mutation UpdateUserBalance($username: String!, $amount: Int!) {
     updateUserBalance(username: $username, amount: $amount) {
       id
       username
@@ -29,8 +29,11 @@ export const CREATE_MATCH = gql`
     createMatch {
       id
       winner
-      fighterRed { name }
-      fighterBlue { name }
+      fighterRedName
+      fighterBlueName
+      matchFormat
+      tier
+      bettable
       totalRedBets
       totalBlueBets
     }
@@ -43,4 +46,162 @@ export const CREATE_MATCH = gql`
  */
 export function useCreateMatchMutation() {
   return useMutation(CREATE_MATCH);
-} 
\ No newline at end of file
+} 
+/**
+ * Fields shared by the match orchestrator query and mutations.
+ */
+const MATCH_ORCHESTRATOR_STATE_FIELDS = `
+  enabled
+  paused
+  pauseReason
+  lastPollAt
+  lastCreatedMatchId
+  lastError
+  consecutiveFailures
+`;
+
+/**
+ * GraphQL query for the automatic match orchestrator state.
+ */
+export const MATCH_ORCHESTRATOR_STATE = gql`
+  query MatchOrchestratorState {
+    matchOrchestratorState {
+      ${MATCH_ORCHESTRATOR_STATE_FIELDS}
+    }
+  }
+`;
+
+/**
+ * Custom hook for the matchOrchestratorState query. Polls so the panel stays current.
+ * @returns {QueryResult} Apollo query result
+ */
+export function useMatchOrchestratorStateQuery() {
+  return useQuery(MATCH_ORCHESTRATOR_STATE, { pollInterval: 5000 });
+}
+
+/**
+ * GraphQL mutation for pausing the match orchestrator.
+ */
+export const PAUSE_MATCH_ORCHESTRATOR = gql`
+  mutation PauseMatchOrchestrator {
+    pauseMatchOrchestrator {
+      ${MATCH_ORCHESTRATOR_STATE_FIELDS}
+    }
+  }
+`;
+
+/**
+ * Custom hook for the pauseMatchOrchestrator mutation.
+ * @returns {[Function, { loading: boolean }]}
+ */
+export function usePauseMatchOrchestratorMutation() {
+  return useMutation(PAUSE_MATCH_ORCHESTRATOR, {
+    refetchQueries: [MATCH_ORCHESTRATOR_STATE],
+  });
+}
+
+/**
+ * GraphQL mutation for resuming the match orchestrator.
+ */
+export const RESUME_MATCH_ORCHESTRATOR = gql`
+  mutation ResumeMatchOrchestrator {
+    resumeMatchOrchestrator {
+      ${MATCH_ORCHESTRATOR_STATE_FIELDS}
+    }
+  }
+`;
+
+/**
+ * Custom hook for the resumeMatchOrchestrator mutation.
+ * @returns {[Function, { loading: boolean }]}
+ */
+export function useResumeMatchOrchestratorMutation() {
+  return useMutation(RESUME_MATCH_ORCHESTRATOR, {
+    refetchQueries: [MATCH_ORCHESTRATOR_STATE],
+  });
+}
+
+/**
+ * GraphQL query for the admin match settings.
+ */
+export const MATCH_SETTINGS = gql`
+  query MatchSettings {
+    matchSettings {
+      bettableFormats
+    }
+  }
+`;
+
+/**
+ * Custom hook for the matchSettings query.
+ * @returns {QueryResult} Apollo query result
+ */
+export function useMatchSettingsQuery() {
+  return useQuery(MATCH_SETTINGS);
+}
+
+/**
+ * GraphQL mutation for choosing which match formats are bettable.
+ */
+export const UPDATE_BETTABLE_FORMATS = gql`
+  mutation UpdateBettableFormats($formats: [MatchFormat!]!) {
+    updateBettableFormats(formats: $formats) {
+      bettableFormats
+    }
+  }
+`;
+
+/**
+ * Custom hook for the updateBettableFormats mutation.
+ * @returns {[Function, { loading: boolean }]}
+ */
+export function useUpdateBettableFormatsMutation() {
+  return useMutation(UPDATE_BETTABLE_FORMATS, {
+    refetchQueries: [MATCH_SETTINGS],
+  });
+}
+
+/**
+ * GraphQL query for matches waiting in the unresolved queue.
+ */
+export const UNRESOLVED_MATCHES = gql`
+  query UnresolvedMatches {
+    unresolvedMatches {
+      id
+      fighterRedName
+      fighterBlueName
+      unresolvedReason
+      createdAt
+    }
+  }
+`;
+
+/**
+ * Custom hook for the unresolvedMatches query. Polls so newly queued matches show up.
+ * @returns {QueryResult} Apollo query result
+ */
+export function useUnresolvedMatchesQuery() {
+  return useQuery(UNRESOLVED_MATCHES, { pollInterval: 15000 });
+}
+
+/**
+ * GraphQL mutation for ending a match with a manual winner.
+ */
+export const END_MATCH = gql`
+  mutation EndMatch($matchId: String!, $winner: FighterColor) {
+    endMatch(matchId: $matchId, winner: $winner) {
+      id
+      winner
+    }
+  }
+`;
+
+/**
+ * Custom hook for the endMatch mutation.
+ * @returns {[Function, { loading: boolean }]}
+ */
+export function useEndMatchMutation() {
+  return useMutation(END_MATCH, {
+    refetchQueries: [UNRESOLVED_MATCHES],
+  });
+}
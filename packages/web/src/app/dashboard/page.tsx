@@ -18,9 +18,13 @@ const GET_CURRENT_MATCH = gql`
   query GetCurrentMatch {
     getCurrentMatch {
       id
+      status
       winner
-      fighterRed { name }
-      fighterBlue { name }
+      fighterRedName
+      fighterBlueName
+      matchFormat
+      tier
+      bettable
       totalRedBets
       totalBlueBets
     }
@@ -99,6 +103,9 @@ export default function DashboardPage(): React.ReactElement {
   const user = userData?.user;
 
   const {
+    matchPhase,
+    matchDetails,
+    bettingOpen,
     betError,
     betSuccess,
     placingBet,
@@ -110,7 +117,8 @@ export default function DashboardPage(): React.ReactElement {
 
   return (
     <main style={{ minHeight: '100dvh', display: 'flex', flexDirection: 'column', alignItems: 'center', padding: 16 }}>
-      <div style={{ width: '100%', display: 'flex', justifyContent: 'flex-end', marginBottom: 8 }}>
+      <div style={{ width: '100%', display: 'flex', justifyContent: 'space-between', marginBottom: 8 }}>
+        <Link href="/profile"><Button>Bet History</Button></Link>
         <Button onClick={handleLogout} variant="red">Logout</Button>
       </div>
       <div style={{ marginBottom: 16 }}>
@@ -119,12 +127,18 @@ export default function DashboardPage(): React.ReactElement {
       {match ? (
         <CardSection style={{ width: '100%', maxWidth: 400 }}>
           <div style={{ marginBottom: 12 }}>
-            <Text variant="bold">{match.fighterRed.name}</Text> vs <Text variant="bold">{match.fighterBlue.name}</Text>
+            <Text variant="bold">{match.fighterRedName}</Text> vs <Text variant="bold">{match.fighterBlueName}</Text>
           </div>
+          <span style={{ color: '#555', marginBottom: 8, display: 'block' }}>
+            <Text variant="small">{matchDetails}</Text>
+          </span>
           <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 8 }}>
-            <Text variant="body">Red Bets: ${totals?.red ?? match.totalRedBets}</Text>
-            <Text variant="body">Blue Bets: ${totals?.blue ?? match.totalBlueBets}</Text>
+            <Text variant="body">Red Bets: ${((totals?.red ?? match.totalRedBets) / 100).toFixed(2)}</Text>
+            <Text variant="body">Blue Bets: ${((totals?.blue ?? match.totalBlueBets) / 100).toFixed(2)}</Text>
           </div>
+          <span style={{ color: '#555', marginBottom: 8, display: 'block' }}>
+            <Text variant="small">Status: {matchPhase}</Text>
+          </span>
           <span style={{ color: '#555', marginBottom: 8 }}>
             <Text variant="small" className="winner">
               Winner: {match.winner || 'TBD'}
@@ -143,10 +157,10 @@ export default function DashboardPage(): React.ReactElement {
       {user && (
         <CardSection style={{ width: '100%', maxWidth: 400 }}>
           <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
-            <Button onClick={() => handlePlaceBet("RED") } variant="red" disabled={placingBet}>Bet Red (5¢)</Button>
-            <Button onClick={() => handlePlaceBet("BLUE") } variant="blue" disabled={placingBet}>Bet Blue (5¢)</Button>
+            <Button onClick={() => handlePlaceBet("RED") } variant="red" disabled={placingBet || !bettingOpen}>Bet Red (5¢)</Button>
+            <Button onClick={() => handlePlaceBet("BLUE") } variant="blue" disabled={placingBet || !bettingOpen}>Bet Blue (5¢)</Button>
           </div>
-          <Button onClick={handleCancelBet} variant="red" disabled={cancelingBet} style={{ width: '100%' }}>Cancel Bet</Button>
+          <Button onClick={handleCancelBet} variant="red" disabled={cancelingBet || !bettingOpen} style={{ width: '100%' }}>Cancel Bet</Button>
           {betError && (
             <span style={{ marginTop: 8, display: 'block' }}>
               <Text variant="error">{betError}</Text>
@@ -1,4 +1,5 @@
 import { useEffect, useLayoutEffect, useState } from "react";
+import { ApolloError } from "@apollo/client";
 import Cookies from "js-cookie";
 import { useRouter } from "next/navigation";
 import {
@@ -10,6 +11,66 @@ import {
   BET_TOTALS_UPDATED,
 } from "./useGqlDashboard";
 
+/**
+ * Human readable labels for each match status.
+ */
+const MATCH_PHASE_LABELS: Record<string, string> = {
+  OPEN: "Open for bets",
+  LOCKED: "Bets locked",
+  RESOLVED: "Resolved",
+  VOIDED: "Voided",
+};
+
+/**
+ * Human readable labels for each match format.
+ */
+const MATCH_FORMAT_LABELS: Record<string, string> = {
+  MATCHMAKING: "Matchmaking",
+  TOURNAMENT: "Tournament",
+  EXHIBITION: "Exhibition",
+};
+
+/**
+ * How many times a betting mutation is sent before a network error is shown.
+ */
+const BET_MUTATION_ATTEMPTS = 3;
+
+/**
+ * Runs a betting mutation, retrying on network errors. Every attempt carries
+ * the same idempotency key, so a retry of a request that did reach the server
+ * is not applied twice.
+ * @param {(idempotencyKey: string) => Promise<T>} mutate - Sends the mutation.
+ * @returns {Promise<T>} The mutation result.
+ */
+async function withRetries<T>(mutate: (idempotencyKey: string) => Promise<T>): Promise<T> {
+  const idempotencyKey = crypto.randomUUID();
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await mutate(idempotencyKey);
+    } catch (error) {
+      const networkError = error instanceof ApolloError && error.networkError;
+      if (!networkError || attempt >= BET_MUTATION_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * Picks the message to show for a failed betting mutation, telling the user
+ * how long to wait when they have been rate limited.
+ * @param {unknown} error - The error the mutation threw.
+ * @param {string} fallback - The message for any other error.
+ * @returns {string} The message to show.
+ */
+function getBetErrorMessage(error: unknown, fallback: string): string {
+  const rateLimited =
+    error instanceof ApolloError &&
+    error.graphQLErrors.find((graphQLError) => graphQLError.extensions?.code === "RATE_LIMITED");
+  if (rateLimited) {
+    return `Too many requests. Try again in ${rateLimited.extensions?.retryAfter}s`;
+  }
+  return fallback;
+}
+
 /**
  * Custom hook for dashboard business logic.
  * Handles authentication, queries, mutations, state, and handlers.
@@ -47,6 +108,17 @@ export function useDashboard() {
   const match = matchData?.getCurrentMatch;
   const totals = totalsData?.getMatchTotals;
   const user = userData?.user;
+  const bettingOpen = match?.status === "OPEN";
+  const matchPhase = !match
+    ? ""
+    : match.bettable
+      ? MATCH_PHASE_LABELS[match.status] ?? match.status
+      : "Not open for betting";
+  const matchDetails = match
+    ? [MATCH_FORMAT_LABELS[match.matchFormat] ?? match.matchFormat, match.tier && `${match.tier} tier`]
+        .filter(Boolean)
+        .join(" · ")
+    : "";
 
   // Betting state and actions
   const [betError, setBetError] = useState("");
@@ -62,14 +134,16 @@ export function useDashboard() {
     setBetError("");
     setBetSuccess("");
     try {
-      const { data } = await placeBet({ variables: { amount: 0.05, fighterColor: color } });
+      const { data } = await withRetries((idempotencyKey) =>
+        placeBet({ variables: { amount: 5, fighterColor: color, idempotencyKey } })
+      );
       if (data?.placeBet) {
         setBetSuccess(`Bet placed on ${color}`);
       } else {
         setBetError("Failed to place bet");
       }
-    } catch {
-      setBetError("Error placing bet");
+    } catch (error) {
+      setBetError(getBetErrorMessage(error, "Error placing bet"));
     }
   };
 
@@ -80,14 +154,16 @@ export function useDashboard() {
     setBetError("");
     setBetSuccess("");
     try {
-      const { data } = await cancelBet({ variables: { amount: 0.05 } });
+      const { data } = await withRetries((idempotencyKey) =>
+        cancelBet({ variables: { amount: 5, idempotencyKey } })
+      );
       if (data?.cancelBet) {
         setBetSuccess("Bet canceled");
       } else {
         setBetError("Failed to cancel bet");
       }
-    } catch {
-      setBetError("Error canceling bet");
+    } catch (error) {
+      setBetError(getBetErrorMessage(error, "Error canceling bet"));
     }
   };
 
@@ -103,6 +179,9 @@ export function useDashboard() {
     match,
     totals,
     user,
+    matchPhase,
+    matchDetails,
+    bettingOpen,
     betError,
     betSuccess,
     placingBet,
@@ -7,9 +7,13 @@ export const GET_CURRENT_MATCH = gql`
   query GetCurrentMatch {
     getCurrentMatch {
       id
+      status
       winner
-      fighterRed { name }
-      fighterBlue { name }
+      fighterRedName
+      fighterBlueName
+      matchFormat
+      tier
+      bettable
       totalRedBets
       totalBlueBets
     }
@@ -53,8 +57,8 @@ export const GET_MY_USER = gql`
  * GraphQL mutation for placing a bet.
  */
 export const PLACE_BET = gql`
-  mutation PlaceBet($amount: Float!, $fighterColor: String!) {
-    placeBet(amount: $amount, fighterColor: $fighterColor)
+  mutation PlaceBet($amount: Int!, $fighterColor: String!, $idempotencyKey: String) {
+    placeBet(amount: $amount, fighterColor: $fighterColor, idempotencyKey: $idempotencyKey)
   }
 `;
 
@@ -62,8 +66,8 @@ export const PLACE_BET = gql`
  * GraphQL mutation for canceling a bet.
  */
 export const CANCEL_BET = gql`
-  mutation CancelBet($amount: Float!) {
-    cancelBet(amount: $amount)
+  mutation CancelBet($amount: Int!, $idempotencyKey: String) {
+    cancelBet(amount: $amount, idempotencyKey: $idempotencyKey)
   }
 `;
 
@@ -0,0 +1,59 @@
+"use client";
+import Link from "next/link";
+import { Button, Heading, Text, CardSection } from '@saltybets/components';
+import { useProfile, formatCents } from "./useProfile";
+
+/**
+ * Profile page: the current user's bet history with the outcome of each bet.
+ * Redirects to /login if not authenticated.
+ * @returns {React.ReactElement} The rendered profile page.
+ */
+export default function ProfilePage(): React.ReactElement {
+  const {
+    bets,
+    totalCount,
+    hasMore,
+    loading,
+    error,
+    handleLoadMore,
+    describeOutcome,
+  } = useProfile();
+
+  return (
+    <main style={{ minHeight: '100dvh', display: 'flex', flexDirection: 'column', alignItems: 'center', padding: 16 }}>
+      <div style={{ width: '100%', display: 'flex', justifyContent: 'flex-start', marginBottom: 8 }}>
+        <Link href="/dashboard"><Button>Dashboard</Button></Link>
+      </div>
+      <div style={{ marginBottom: 16 }}>
+        <Heading level={2}>Bet History</Heading>
+      </div>
+      {error && (
+        <span style={{ marginBottom: 16, display: 'block' }}>
+          <Text variant="error">{error}</Text>
+        </span>
+      )}
+      <CardSection style={{ width: '100%', maxWidth: 400 }}>
+        <span style={{ color: '#555', display: 'block', marginBottom: 8 }}>
+          <Text variant="small">{totalCount} bets</Text>
+        </span>
+        {bets.map((bet) => (
+          <div key={bet.id} style={{ marginBottom: 12 }}>
+            <Text variant="bold">{bet.match.fighterRedName}</Text> vs <Text variant="bold">{bet.match.fighterBlueName}</Text>
+            <span style={{ display: 'block' }}>
+              <Text variant="body">{formatCents(bet.amount)} on {bet.side === "RED" ? "Red" : "Blue"}: {describeOutcome(bet)}</Text>
+            </span>
+            <span style={{ color: '#555', display: 'block' }}>
+              <Text variant="small">{new Date(bet.placedAt).toLocaleString()}</Text>
+            </span>
+          </div>
+        ))}
+        {!loading && bets.length === 0 && <Text variant="body">No bets yet.</Text>}
+        {hasMore && (
+          <Button style={{ width: '100%' }} onClick={handleLoadMore} disabled={loading}>
+            {loading ? "Loading..." : "Load more"}
+          </Button>
+        )}
+      </CardSection>
+    </main>
+  );
+}
@@ -0,0 +1,46 @@
+import { gql, useQuery } from "@apollo/client";
+
+/**
+ * GraphQL query for a page of the current user's bet history.
+ */
+export const MY_BETS = gql`
+  query MyBets($first: Int!, $after: String) {
+    myBets(first: $first, after: $after) {
+      totalCount
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      edges {
+        cursor
+        node {
+          id
+          side
+          amount
+          result
+          payoutReceived
+          oddsAtResolution
+          placedAt
+          match {
+            id
+            fighterRedName
+            fighterBlueName
+            winner
+            status
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Apollo hook for the bet history query.
+ * @param {number} pageSize - Bets per page
+ */
+export function useMyBetsQuery(pageSize: number) {
+  return useQuery(MY_BETS, {
+    variables: { first: pageSize },
+    notifyOnNetworkStatusChange: true,
+  });
+}
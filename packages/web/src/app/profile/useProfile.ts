@@ -0,0 +1,103 @@
+import { useLayoutEffect } from "react";
+import Cookies from "js-cookie";
+import { useRouter } from "next/navigation";
+import { useMyBetsQuery } from "./useGqlProfile";
+
+const PAGE_SIZE = 20;
+
+/**
+ * Human readable labels for each bet result.
+ */
+const BET_RESULT_LABELS: Record<string, string> = {
+  WON: "Won",
+  LOST: "Lost",
+  REFUNDED: "Refunded",
+};
+
+/**
+ * A bet history entry as returned by the myBets query.
+ */
+export interface BetHistoryEntry {
+  id: string;
+  side: "RED" | "BLUE";
+  amount: number;
+  result: string | null;
+  payoutReceived: number;
+  oddsAtResolution: number | null;
+  placedAt: string;
+  match: {
+    id: string;
+    fighterRedName: string;
+    fighterBlueName: string;
+    winner: string | null;
+    status: string;
+  };
+}
+
+/**
+ * Formats cents as dollars.
+ * @param {number} cents - Amount in cents
+ * @returns {string} e.g. "$1.25"
+ */
+export function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Custom hook for the profile page: the current user's bet history, loaded a page at a time.
+ * @returns {object} State and handlers for the profile page
+ */
+export function useProfile() {
+  const router = useRouter();
+  useLayoutEffect(() => {
+    const token = Cookies.get("token");
+    if (!token) {
+      router.replace("/login");
+    }
+  }, [router]);
+
+  const { data, loading, error, fetchMore } = useMyBetsQuery(PAGE_SIZE);
+  const connection = data?.myBets;
+  const bets: BetHistoryEntry[] = connection?.edges.map((edge: { node: BetHistoryEntry }) => edge.node) ?? [];
+
+  /**
+   * Loads the next page of bets and appends it to the list.
+   */
+  const handleLoadMore = async () => {
+    if (!connection?.pageInfo.hasNextPage) return;
+    await fetchMore({
+      variables: { first: PAGE_SIZE, after: connection.pageInfo.endCursor },
+      updateQuery: (prev, { fetchMoreResult }) => {
+        if (!fetchMoreResult) return prev;
+        return {
+          myBets: {
+            ...fetchMoreResult.myBets,
+            edges: [...prev.myBets.edges, ...fetchMoreResult.myBets.edges],
+          },
+        };
+      },
+    });
+  };
+
+  /**
+   * Describes how a bet turned out, e.g. "Won $0.15 at 3.00x".
+   * @param {BetHistoryEntry} bet - The bet
+   * @returns {string} The outcome label
+   */
+  const describeOutcome = (bet: BetHistoryEntry): string => {
+    if (!bet.result) return "Pending";
+    const label = BET_RESULT_LABELS[bet.result] ?? bet.result;
+    const odds = bet.oddsAtResolution ? ` at ${bet.oddsAtResolution.toFixed(2)}x` : "";
+    return bet.result === "LOST" ? `${label}${odds}` : `${label} ${formatCents(bet.payoutReceived)}${odds}`;
+  };
+
+  return {
+    bets,
+    totalCount: connection?.totalCount ?? 0,
+    hasMore: connection?.pageInfo.hasNextPage ?? false,
+    loading,
+    error: error?.message ?? "",
+    handleLoadMore,
+    describeOutcome,
+  };
+}
@@ -1,6 +1,9 @@
 "use client";
-import { ApolloClient, InMemoryCache, ApolloProvider, HttpLink } from "@apollo/client";
+import { ApolloClient, InMemoryCache, ApolloProvider, HttpLink, split } from "@apollo/client";
 import { setContext } from "@apollo/client/link/context";
+import { GraphQLWsLink } from "@apollo/client/link/subscriptions";
+import { getMainDefinition } from "@apollo/client/utilities";
+import { createClient } from "graphql-ws";
 import Cookies from "js-cookie";
 import React from "react";
 
@@ -26,8 +29,37 @@ const authLink = setContext((_, { headers }) => {
 
 const httpLink = new HttpLink({ uri: "http://localhost:4000/graphql", credentials: "include" });
 
+// Subscriptions run over WebSocket, which is only available in the browser.
+// The token is read on every (re)connect so logging in or out takes effect.
+const wsLink =
+  typeof window !== "undefined"
+    ? new GraphQLWsLink(
+        createClient({
+          url: "ws://localhost:4000/graphql",
+          connectionParams: () => {
+            const token = Cookies.get("token");
+            return token ? { authorization: `Bearer ${token}` } : {};
+          },
+        })
+      )
+    : null;
+
+/**
+ * Sends subscriptions over WebSocket and everything else over HTTP.
+ */
+const link = wsLink
+  ? split(
+      ({ query }) => {
+        const definition = getMainDefinition(query);
+        return definition.kind === "OperationDefinition" && definition.operation === "subscription";
+      },
+      wsLink,
+      authLink.concat(httpLink)
+    )
+  : authLink.concat(httpLink);
+
 const client = new ApolloClient({
-  link: authLink.concat(httpLink),
+  link,
   cache: new InMemoryCache(),
 });
 